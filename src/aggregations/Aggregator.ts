@@ -0,0 +1,124 @@
+import type {
+  AggregationSpec,
+  AggregationResult,
+  HistogramSpec,
+  TermBucket,
+  HistogramBucket,
+  FieldStats,
+} from '../core/types.js';
+
+function toArray<V>(value: V | V[] | undefined): V[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+interface StatsAccumulator {
+  count: number;
+  min: number;
+  max: number;
+  sum: number;
+}
+
+// Accumulates facet counts in a single pass over the candidates. Each add()
+// either counts toward every facet (the item matched all filters), or only
+// toward the facets of one field (the item failed only that field's
+// disjunctive filters).
+export class Aggregator<T> {
+  private readonly termFields: Array<keyof T>;
+  private readonly histogramSpecs: Array<HistogramSpec<T>>;
+  private readonly statsFields: Array<keyof T>;
+  private readonly termCounts = new Map<keyof T, Map<unknown, number>>();
+  private readonly histogramCounts = new Map<HistogramSpec<T>, Map<number, number>>();
+  private readonly statsAccumulators = new Map<keyof T, StatsAccumulator>();
+  private total = 0;
+
+  constructor(spec: AggregationSpec<T>) {
+    this.termFields = toArray(spec.terms);
+    this.histogramSpecs = toArray(spec.histogram);
+    this.statsFields = toArray(spec.stats);
+
+    for (const field of this.termFields) {
+      this.termCounts.set(field, new Map());
+    }
+    for (const histogram of this.histogramSpecs) {
+      if (!(histogram.interval > 0)) {
+        throw new Error(`Histogram interval for '${String(histogram.field)}' must be positive.`);
+      }
+      this.histogramCounts.set(histogram, new Map());
+    }
+    for (const field of this.statsFields) {
+      this.statsAccumulators.set(field, { count: 0, min: Infinity, max: -Infinity, sum: 0 });
+    }
+  }
+
+  // `onlyField` restricts the item to that field's facets - used for items that
+  // were only rejected by the field's own filter
+  add(item: T, onlyField?: keyof T): void {
+    if (onlyField === undefined) {
+      this.total++;
+    }
+
+    for (const field of this.termFields) {
+      if (onlyField !== undefined && field !== onlyField) continue;
+      this.addTerm(field, item[field]);
+    }
+
+    for (const histogram of this.histogramSpecs) {
+      if (onlyField !== undefined && histogram.field !== onlyField) continue;
+      const value = item[histogram.field];
+      if (typeof value !== 'number' || Number.isNaN(value)) continue;
+      const key = Math.floor(value / histogram.interval) * histogram.interval;
+      const counts = this.histogramCounts.get(histogram)!;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+
+    for (const field of this.statsFields) {
+      if (onlyField !== undefined && field !== onlyField) continue;
+      const value = item[field];
+      if (typeof value !== 'number' || Number.isNaN(value)) continue;
+      const stats = this.statsAccumulators.get(field)!;
+      stats.count++;
+      stats.sum += value;
+      if (value < stats.min) stats.min = value;
+      if (value > stats.max) stats.max = value;
+    }
+  }
+
+  private addTerm(field: keyof T, value: unknown): void {
+    if (value === undefined || value === null) return;
+    const counts = this.termCounts.get(field)!;
+
+    // Array fields count each distinct element once per item
+    const values = Array.isArray(value) ? new Set<unknown>(value) : [value];
+    for (const term of values) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+  }
+
+  result(): AggregationResult {
+    const terms: Record<string, TermBucket[]> = {};
+    for (const [field, counts] of this.termCounts) {
+      terms[String(field)] = [...counts]
+        .map(([value, count]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count);
+    }
+
+    const histograms: Record<string, HistogramBucket[]> = {};
+    for (const [histogram, counts] of this.histogramCounts) {
+      histograms[String(histogram.field)] = [...counts]
+        .map(([key, count]) => ({ key, count }))
+        .sort((a, b) => a.key - b.key);
+    }
+
+    const stats: Record<string, FieldStats> = {};
+    for (const [field, accumulator] of this.statsAccumulators) {
+      const { count, sum } = accumulator;
+      stats[String(field)] =
+        count > 0
+          ? { count, min: accumulator.min, max: accumulator.max, sum, avg: sum / count }
+          : { count: 0, min: null, max: null, sum: 0, avg: null };
+    }
+
+    return { total: this.total, terms, histograms, stats };
+  }
+}
@@ -0,0 +1,112 @@
+import type {
+  GeoPoint,
+  BoundingBox,
+  DensityOptions,
+  DensityCell,
+  DensityResult,
+} from '../core/types.js';
+import {
+  kmToLatDegrees,
+  kmToLngDegrees,
+  normalizeLongitude,
+  clampLatitude,
+} from '../spatial/bounds.js';
+import { encodeGeohash, geohashBounds } from '../spatial/geohash.js';
+
+interface CellAccumulator {
+  count: number;
+  value: number;
+}
+
+// Bins points into a sparse grid keyed by cell. Only cells that receive at
+// least one point are allocated, so large empty viewports cost nothing.
+// Cells are either fixed-size (cellSizeKm, anchored at the bounds' south-west
+// corner) or geohash cells, which line up with backends that speak geohash.
+export class DensityGrid<T> {
+  private readonly bounds: BoundingBox;
+  private readonly geohashPrecision: number | undefined;
+  private readonly latStep: number;
+  private readonly lngStep: number;
+  private readonly weightField: keyof T | undefined;
+  private readonly cells = new Map<string, CellAccumulator>();
+
+  constructor(options: DensityOptions<T>) {
+    const { bounds, cellSizeKm, geohashPrecision } = options;
+    if ((cellSizeKm === undefined) === (geohashPrecision === undefined)) {
+      throw new Error('density() requires exactly one of cellSizeKm or geohashPrecision.');
+    }
+    if (cellSizeKm !== undefined && !(cellSizeKm > 0)) {
+      throw new Error('density() cellSizeKm must be positive.');
+    }
+
+    this.bounds = bounds;
+    this.geohashPrecision = geohashPrecision;
+    this.weightField = options.weightField;
+
+    // Longitude cells are sized at the middle of the bounds. Over very tall
+    // viewports they'll be narrower (in km) towards the poles.
+    const cellKm = cellSizeKm ?? 0;
+    const midLat = (bounds.minLat + bounds.maxLat) / 2;
+    this.latStep = kmToLatDegrees(cellKm);
+    this.lngStep = Math.min(kmToLngDegrees(cellKm, midLat), 360);
+  }
+
+  private cellKey(point: GeoPoint): string {
+    if (this.geohashPrecision !== undefined) {
+      return encodeGeohash(point.lat, point.lng, this.geohashPrecision);
+    }
+    const row = Math.floor((point.lat - this.bounds.minLat) / this.latStep);
+    // Offset measured eastward from minLng, so bounds crossing the
+    // antimeridian still produce increasing column numbers
+    let lngOffset = point.lng - this.bounds.minLng;
+    if (lngOffset < 0) lngOffset += 360;
+    const col = Math.floor(lngOffset / this.lngStep);
+    return `${row}:${col}`;
+  }
+
+  private cellBounds(key: string): BoundingBox {
+    if (this.geohashPrecision !== undefined) {
+      return geohashBounds(key);
+    }
+    const [row, col] = key.split(':').map(Number) as [number, number];
+    const minLng = this.bounds.minLng + col * this.lngStep;
+    return {
+      minLat: clampLatitude(this.bounds.minLat + row * this.latStep),
+      maxLat: clampLatitude(this.bounds.minLat + (row + 1) * this.latStep),
+      minLng: normalizeLongitude(minLng),
+      maxLng: normalizeLongitude(minLng + this.lngStep),
+    };
+  }
+
+  add(item: T, point: GeoPoint): void {
+    let weight = 1;
+    if (this.weightField !== undefined) {
+      const fieldValue = item[this.weightField];
+      // Items without a numeric weight still count, they just add nothing
+      weight = typeof fieldValue === 'number' && !Number.isNaN(fieldValue) ? fieldValue : 0;
+    }
+
+    const key = this.cellKey(point);
+    const cell = this.cells.get(key);
+    if (cell) {
+      cell.count++;
+      cell.value += weight;
+    } else {
+      this.cells.set(key, { count: 1, value: weight });
+    }
+  }
+
+  result(): DensityResult {
+    const cells: DensityCell[] = [];
+    let maxValue = 0;
+    let total = 0;
+
+    for (const [key, { count, value }] of this.cells) {
+      cells.push({ key, bounds: this.cellBounds(key), count, value });
+      maxValue = Math.max(maxValue, value);
+      total += count;
+    }
+
+    return { cells, maxValue, total };
+  }
+}
@@ -0,0 +1,2 @@
+export { Aggregator } from './Aggregator.js';
+export { DensityGrid } from './DensityGrid.js';
@@ -0,0 +1,45 @@
+import type { CacheEntry, CacheStore, LRUCacheStoreOptions } from '../core/types.js';
+import { LRUCache } from '../utils/LRUCache.js';
+
+// The default CacheStore: least recently used entries go first once either
+// the entry count or the estimated bytes run over. Create one and pass it as
+// cacheStore to share those limits between instances.
+export class LRUCacheStore implements CacheStore {
+  private readonly cache: LRUCache<string, CacheEntry>;
+
+  constructor(options: LRUCacheStoreOptions = {}) {
+    this.cache = new LRUCache<string, CacheEntry>(options.maxEntries ?? 100, {
+      maxWeight: options.maxBytes,
+      weigh: (entry) => entry.bytes,
+    });
+  }
+
+  get(key: string): CacheEntry | undefined {
+    return this.cache.get(key);
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.cache.set(key, entry);
+  }
+
+  delete(key: string): boolean {
+    return this.cache.delete(key);
+  }
+
+  entries(): Iterable<[string, CacheEntry]> {
+    return this.cache.entries();
+  }
+
+  get evictions(): number {
+    return this.cache.evictions;
+  }
+
+  get size(): number {
+    return this.cache.size;
+  }
+
+  // Estimated bytes held, across every instance using the store
+  get bytes(): number {
+    return this.cache.totalWeight;
+  }
+}
@@ -0,0 +1,172 @@
+import type { GeoPoint, BoundingBox, CacheStats, CacheEntry, CacheStore } from '../core/types.js';
+
+// Where a cached query's result can change: an add or remove anywhere else
+// leaves it as it was. `contains` is exact; `boxes` cover the same area in
+// non-wrapping boxes for batch checks, or are null for queries without a
+// spatial filter, which any mutation affects.
+export interface CacheRegion {
+  contains: (point: GeoPoint) => boolean;
+  boxes: BoundingBox[] | null;
+}
+
+export interface CachedPage {
+  items: object[];
+  nextCursor?: string;
+}
+
+// What goes into the store's opaque CacheEntry.value
+interface CachedQuery {
+  page: CachedPage;
+  region: CacheRegion;
+}
+
+// Prefixes store keys, so instances sharing a store never see each other's
+// entries
+let nextNamespace = 0;
+
+// Rough size of a cached page: the array and the result objects it holds.
+// Nested values inside results are shared with the indexed items, so they
+// only count as references.
+function estimateBytes(key: string, page: CachedPage): number {
+  let bytes = 64 + key.length * 2 + (page.nextCursor?.length ?? 0) * 2 + page.items.length * 8;
+  for (const item of page.items) {
+    bytes += 32;
+    for (const value of Object.values(item)) {
+      bytes += typeof value === 'string' ? 16 + value.length * 2 : 16;
+    }
+  }
+  return bytes;
+}
+
+function boxesIntersect(a: BoundingBox, b: BoundingBox): boolean {
+  return (
+    a.minLat <= b.maxLat && b.minLat <= a.maxLat && a.minLng <= b.maxLng && b.minLng <= a.maxLng
+  );
+}
+
+// Plain min/max - a batch straddling the antimeridian gets a wide box, which
+// evicts more than needed but never too little
+function extentOf(points: GeoPoint[]): BoundingBox {
+  const extent = { minLat: Infinity, maxLat: -Infinity, minLng: Infinity, maxLng: -Infinity };
+  for (const { lat, lng } of points) {
+    extent.minLat = Math.min(extent.minLat, lat);
+    extent.maxLat = Math.max(extent.maxLat, lat);
+    extent.minLng = Math.min(extent.minLng, lng);
+    extent.maxLng = Math.max(extent.maxLng, lng);
+  }
+  return extent;
+}
+
+// Query results keyed by query state, each tagged with its region so a
+// mutation only evicts the entries it could have changed. Entries live in a
+// CacheStore, possibly shared with other instances.
+export class QueryCache {
+  private readonly store: CacheStore;
+  private readonly namespace = `${nextNamespace++}:`;
+  private readonly ttlMs: number;
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+  private expired = 0;
+  // Store keys this instance wrote and hasn't deleted. One that's gone from
+  // the store anyway was evicted, which is how evictions are counted per
+  // instance even in a shared store.
+  private readonly keys = new Set<string>();
+  private evicted = 0;
+
+  constructor(store: CacheStore, ttlMs: number = Infinity) {
+    this.store = store;
+    this.ttlMs = ttlMs;
+  }
+
+  get(key: string): CachedPage | undefined {
+    const storeKey = this.namespace + key;
+    const entry = this.store.get(storeKey);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.delete(storeKey);
+      this.expired++;
+    } else if (!entry && this.keys.delete(storeKey)) {
+      this.evicted++;
+    } else if (entry) {
+      this.hits++;
+      return (entry.value as CachedQuery).page;
+    }
+    this.misses++;
+    return undefined;
+  }
+
+  set(key: string, page: CachedPage, region: CacheRegion): void {
+    const value: CachedQuery = { page, region };
+    this.keys.add(this.namespace + key);
+    this.store.set(this.namespace + key, {
+      value,
+      bytes: estimateBytes(key, page),
+      expiresAt: Date.now() + this.ttlMs,
+    });
+  }
+
+  private delete(storeKey: string): void {
+    this.store.delete(storeKey);
+    this.keys.delete(storeKey);
+  }
+
+  // This instance's entries. Collected up front, since a custom store's
+  // iterator might not survive deletes. Counts the ones evicted since the
+  // last look along the way.
+  private ownEntries(): Array<[string, CacheEntry]> {
+    const entries = [...this.store.entries()].filter(([key]) => key.startsWith(this.namespace));
+    if (entries.length < this.keys.size) {
+      const present = new Set(entries.map(([key]) => key));
+      for (const key of this.keys) {
+        if (present.has(key)) continue;
+        this.keys.delete(key);
+        this.evicted++;
+      }
+    }
+    return entries;
+  }
+
+  // Evicts entries whose region holds any of the points. A single add, remove
+  // or move is tested exactly against each region; larger batches are reduced
+  // to their combined extent, so eviction stays one pass over the cache.
+  invalidate(points: GeoPoint[]): void {
+    if (points.length === 0) {
+      return;
+    }
+    const extent = points.length > 2 ? extentOf(points) : null;
+    for (const [key, entry] of this.ownEntries()) {
+      const { region } = entry.value as CachedQuery;
+      const affected = extent
+        ? region.boxes === null || region.boxes.some((box) => boxesIntersect(box, extent))
+        : points.some((point) => region.contains(point));
+      if (affected) {
+        this.delete(key);
+        this.invalidations++;
+      }
+    }
+  }
+
+  clear(): void {
+    for (const [key] of this.ownEntries()) {
+      this.delete(key);
+    }
+  }
+
+  get size(): number {
+    return this.ownEntries().length;
+  }
+
+  stats(): CacheStats {
+    const entries = this.ownEntries();
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+      invalidations: this.invalidations,
+      evictions: this.evicted + this.expired,
+      bytes: entries.reduce((total, [, entry]) => total + entry.bytes, 0),
+      size: entries.length,
+    };
+  }
+}
@@ -0,0 +1,3 @@
+export { QueryCache } from './QueryCache.js';
+export { LRUCacheStore } from './LRUCacheStore.js';
+export type { CacheRegion, CachedPage } from './QueryCache.js';
@@ -0,0 +1,274 @@
+import KDBush from 'kdbush';
+import type {
+  BoundingBox,
+  ClusterOptions,
+  ClusterResult,
+  CoordinateAccessor,
+} from '../core/types.js';
+import { splitBounds } from '../spatial/bounds.js';
+import { defaultCoordinates } from '../spatial/coordinates.js';
+
+// One clustered or unclustered point at a given zoom level, in Web Mercator
+// coordinates normalized to [0, 1].
+interface ClusterNode {
+  x: number;
+  y: number;
+  // Last zoom this node was processed at - Infinity until it's been visited
+  zoom: number;
+  // Item index for original points, encoded cluster id for clusters
+  id: number;
+  parentId: number;
+  count: number;
+}
+
+interface ClusterLevel {
+  index: KDBush;
+  nodes: ClusterNode[];
+}
+
+const DEFAULT_OPTIONS: Required<ClusterOptions> = {
+  radius: 40,
+  extent: 512,
+  minZoom: 0,
+  maxZoom: 16,
+  minPoints: 2,
+  nodeSize: 64,
+};
+
+function lngToX(lng: number): number {
+  return lng / 360 + 0.5;
+}
+
+function latToY(lat: number): number {
+  const sin = Math.sin((lat * Math.PI) / 180);
+  const y = 0.5 - (0.25 * Math.log((1 + sin) / (1 - sin))) / Math.PI;
+  return y < 0 ? 0 : y > 1 ? 1 : y;
+}
+
+function xToLng(x: number): number {
+  return (x - 0.5) * 360;
+}
+
+function yToLat(y: number): number {
+  const y2 = ((180 - y * 360) * Math.PI) / 180;
+  return (360 * Math.atan(Math.exp(y2))) / Math.PI - 90;
+}
+
+// Hierarchical greedy clustering in the style of Supercluster. Every zoom level
+// from maxZoom down to minZoom gets its own KDBush index, built by merging the
+// points of the level below that fall within `radius` pixels of each other.
+// Building is O(n log n); queries per viewport are a single KDBush range lookup.
+export class PointClusterer<T> {
+  private readonly options: Required<ClusterOptions>;
+  private readonly items: T[];
+  private readonly levels: ClusterLevel[];
+
+  constructor(
+    items: T[],
+    options: ClusterOptions = {},
+    getCoordinates: CoordinateAccessor<T> = defaultCoordinates
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.items = items;
+    this.levels = [];
+
+    const { minZoom, maxZoom } = this.options;
+    let nodes: ClusterNode[] = items.map((item, i) => {
+      const { lat, lng } = getCoordinates(item);
+      return {
+        x: lngToX(lng),
+        y: latToY(lat),
+        zoom: Infinity,
+        id: i,
+        parentId: -1,
+        count: 1,
+      };
+    });
+
+    // maxZoom + 1 holds the raw points, so every zoom up to maxZoom has a
+    // level to cluster from
+    this.levels[maxZoom + 1] = this.createLevel(nodes);
+    for (let zoom = maxZoom; zoom >= minZoom; zoom--) {
+      nodes = this.clusterLevel(this.levels[zoom + 1]!, zoom);
+      this.levels[zoom] = this.createLevel(nodes);
+    }
+  }
+
+  private createLevel(nodes: ClusterNode[]): ClusterLevel {
+    const index = new KDBush(nodes.length, this.options.nodeSize, Float32Array);
+    for (const node of nodes) {
+      index.add(node.x, node.y);
+    }
+    index.finish();
+    return { index, nodes };
+  }
+
+  private clusterLevel(level: ClusterLevel, zoom: number): ClusterNode[] {
+    const { radius, extent, minPoints } = this.options;
+    const r = radius / (extent * Math.pow(2, zoom));
+    const { index, nodes } = level;
+    const next: ClusterNode[] = [];
+
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i]!;
+      // Already absorbed into a cluster at this zoom
+      if (node.zoom <= zoom) continue;
+      node.zoom = zoom;
+
+      const neighborIds = index.within(node.x, node.y, r);
+
+      let count = node.count;
+      for (const neighborId of neighborIds) {
+        const neighbor = nodes[neighborId]!;
+        if (neighbor.zoom > zoom) {
+          count += neighbor.count;
+        }
+      }
+
+      if (count > node.count && count >= minPoints) {
+        // Weighted centroid, so merging clusters keeps the true center of mass
+        let wx = node.x * node.count;
+        let wy = node.y * node.count;
+        // Encodes the origin node's position and zoom, which lets getChildren()
+        // find the cluster again without storing a lookup table
+        const id = (i << 5) + (zoom + 1) + this.items.length;
+
+        for (const neighborId of neighborIds) {
+          const neighbor = nodes[neighborId]!;
+          if (neighbor.zoom <= zoom) continue;
+          neighbor.zoom = zoom;
+          wx += neighbor.x * neighbor.count;
+          wy += neighbor.y * neighbor.count;
+          neighbor.parentId = id;
+        }
+
+        node.parentId = id;
+        next.push({ x: wx / count, y: wy / count, zoom: Infinity, id, parentId: -1, count });
+      } else {
+        next.push({ ...node });
+        // Not enough neighbors to form a cluster - carry them up unclustered
+        if (count > 1) {
+          for (const neighborId of neighborIds) {
+            const neighbor = nodes[neighborId]!;
+            if (neighbor.zoom <= zoom) continue;
+            neighbor.zoom = zoom;
+            next.push({ ...neighbor });
+          }
+        }
+      }
+    }
+
+    return next;
+  }
+
+  private limitZoom(zoom: number): number {
+    return Math.max(this.options.minZoom, Math.min(Math.floor(zoom), this.options.maxZoom + 1));
+  }
+
+  private isCluster(node: ClusterNode): boolean {
+    return node.id >= this.items.length;
+  }
+
+  private getOriginLevel(clusterId: number): {
+    level: ClusterLevel;
+    node: ClusterNode;
+    zoom: number;
+  } {
+    const originIndex = (clusterId - this.items.length) >> 5;
+    const originZoom = (clusterId - this.items.length) % 32;
+    const level = this.levels[originZoom];
+    const node = level?.nodes[originIndex];
+    if (!level || !node || clusterId < this.items.length) {
+      throw new Error(`No cluster with id ${clusterId}.`);
+    }
+    return { level, node, zoom: originZoom };
+  }
+
+  private getChildNodes(clusterId: number): ClusterNode[] {
+    const { level, node, zoom } = this.getOriginLevel(clusterId);
+    const r = this.options.radius / (this.options.extent * Math.pow(2, zoom - 1));
+    const ids = level.index.within(node.x, node.y, r);
+    return ids.map((id) => level.nodes[id]!).filter((child) => child.parentId === clusterId);
+  }
+
+  private toResult(node: ClusterNode): ClusterResult<T> {
+    if (!this.isCluster(node)) {
+      return { type: 'point', item: this.items[node.id]! };
+    }
+    return {
+      type: 'cluster',
+      id: node.id,
+      lat: yToLat(node.y),
+      lng: xToLng(node.x),
+      count: node.count,
+      expansionZoom: this.getExpansionZoom(node.id),
+    };
+  }
+
+  getClusters(bounds: BoundingBox, zoom: number): Array<ClusterResult<T>> {
+    const level = this.levels[this.limitZoom(zoom)]!;
+    const results: Array<ClusterResult<T>> = [];
+
+    // Mercator y grows southward, so maxLat maps to the smaller y
+    for (const box of splitBounds(bounds)) {
+      const ids = level.index.range(
+        lngToX(box.minLng),
+        latToY(box.maxLat),
+        lngToX(box.maxLng),
+        latToY(box.minLat)
+      );
+      for (const id of ids) {
+        results.push(this.toResult(level.nodes[id]!));
+      }
+    }
+
+    return results;
+  }
+
+  getChildren(clusterId: number): Array<ClusterResult<T>> {
+    return this.getChildNodes(clusterId).map((node) => this.toResult(node));
+  }
+
+  getLeaves(clusterId: number, limit: number = Infinity, offset: number = 0): T[] {
+    const leaves: T[] = [];
+    if (limit <= 0) {
+      return leaves;
+    }
+    let skipped = 0;
+
+    const collect = (id: number): boolean => {
+      for (const child of this.getChildNodes(id)) {
+        if (this.isCluster(child)) {
+          // Whole subtrees before the offset can be skipped without descending
+          if (skipped + child.count <= offset) {
+            skipped += child.count;
+          } else if (collect(child.id)) {
+            return true;
+          }
+        } else if (skipped < offset) {
+          skipped++;
+        } else {
+          leaves.push(this.items[child.id]!);
+          if (leaves.length >= limit) return true;
+        }
+      }
+      return false;
+    };
+
+    collect(clusterId);
+    return leaves;
+  }
+
+  // The zoom at which a cluster breaks apart into more than one child
+  getExpansionZoom(clusterId: number): number {
+    let expansionZoom = this.getOriginLevel(clusterId).zoom - 1;
+    let id = clusterId;
+    while (expansionZoom <= this.options.maxZoom) {
+      const children = this.getChildNodes(id);
+      expansionZoom++;
+      if (children.length !== 1 || !this.isCluster(children[0]!)) break;
+      id = children[0]!.id;
+    }
+    return expansionZoom;
+  }
+}
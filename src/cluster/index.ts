@@ -0,0 +1 @@
+export { PointClusterer } from './PointClusterer.js';
@@ -1,69 +1,342 @@
-import type { GeoPoint, GeoSearchOptions } from './types.js';
-import { SpatialIndex, StaticSpatialIndex, type ISpatialIndex } from '../spatial/index.js';
+import type {
+  GeoPoint,
+  GeoSearchOptions,
+  PolygonInput,
+  DistanceUnit,
+  BoundingBox,
+  ClusterOptions,
+  ClusterResult,
+  JoinOptions,
+  JoinPair,
+  BearingSector,
+  GeoJSONFeatureCollection,
+  FromGeoJSONOptions,
+  CoordinateOptions,
+  ItemId,
+  DuplicateIdPolicy,
+  CacheStats,
+  AttributeIndexOptions,
+} from './types.js';
+import {
+  SpatialIndex,
+  StaticSpatialIndex,
+  HybridSpatialIndex,
+  resolveDistanceMetric,
+  resolveCoordinateAccessor,
+  resolveCoordinateSetter,
+  type ISpatialIndex,
+} from '../spatial/index.js';
+import { readSnapshotHeader } from '../spatial/snapshot.js';
 import { QueryBuilder } from './QueryBuilder.js';
-import { LRUCache, generateCacheKey } from '../utils/LRUCache.js';
+import { PointClusterer } from '../cluster/index.js';
+import { generateCacheKey } from '../utils/LRUCache.js';
+import { QueryCache, LRUCacheStore } from '../cache/index.js';
+import { ItemIdMap, resolveIdAccessor } from '../utils/ItemIdMap.js';
+import { parseFeatureCollection } from '../geojson/index.js';
+import { LiveQueryRegistry } from '../live/index.js';
+import { AttributeIndexes } from '../indexes/index.js';
 
-export class GeoSearch<T extends GeoPoint> {
+export class GeoSearch<T extends object> {
   private spatialIndex: ISpatialIndex<T>;
-  private cache: LRUCache<string, unknown> | null = null;
+  private cache: QueryCache | null = null;
   private readonly isStatic: boolean;
+  private readonly units: DistanceUnit;
+  private readonly clusterOptions: ClusterOptions | undefined;
+  // Unfiltered clusters are built lazily and dropped on any mutation
+  private clusterer: PointClusterer<T> | null = null;
+  private readonly live: LiveQueryRegistry<T>;
+  // Secondary indexes from createIndex()
+  private readonly attributes = new AttributeIndexes<T>();
+  // Only with the idField/getId option
+  private readonly ids: ItemIdMap<T> | null;
+  private readonly duplicateIds: DuplicateIdPolicy;
+  // Undefined when coordinates come from a getCoordinates function
+  private readonly setCoordinates: ((item: T, point: GeoPoint) => void) | undefined;
 
-  constructor(items: T[] = [], options: GeoSearchOptions = {}) {
-    this.isStatic = options.static ?? false;
+  constructor(items: T[] = [], options: GeoSearchOptions<T> = {}) {
+    this.isStatic = options.static === true;
+    this.units = options.units ?? 'km';
+    this.clusterOptions = options.cluster;
+    const getId = resolveIdAccessor(options);
+    const ids = getId ? new ItemIdMap(getId) : null;
+    this.ids = ids;
+    this.live = new LiveQueryRegistry<T>(ids ? (item) => ids.idOf(item) : undefined);
+    this.duplicateIds = options.duplicateIds ?? 'error';
+    this.setCoordinates = resolveCoordinateSetter(options);
 
     // Two index strategies: RBush (dynamic) allows add/remove but slower,
-    // KDBush (static) is 5-8x faster but immutable after creation
+    // KDBush (static) is 5-8x faster but immutable after creation. Hybrid
+    // pairs a KDBush base with a small RBush for the edits made since.
+    const distanceFn = resolveDistanceMetric(options.distance);
+    const getCoordinates = resolveCoordinateAccessor(options);
     if (this.isStatic) {
-      this.spatialIndex = new StaticSpatialIndex<T>();
+      this.spatialIndex = new StaticSpatialIndex<T>(distanceFn, getCoordinates);
+    } else if (options.static === 'hybrid') {
+      this.spatialIndex = new HybridSpatialIndex<T>(
+        distanceFn,
+        getCoordinates,
+        options.compactThreshold
+      );
     } else {
-      this.spatialIndex = new SpatialIndex<T>();
+      this.spatialIndex = new SpatialIndex<T>(distanceFn, getCoordinates);
     }
 
-    if (options.cache) {
-      this.cache = new LRUCache<string, unknown>(options.cacheSize ?? 100);
+    if (options.cache === true || options.cacheStore) {
+      const store =
+        options.cacheStore ??
+        new LRUCacheStore({ maxEntries: options.cacheSize, maxBytes: options.cacheMaxBytes });
+      this.cache = new QueryCache(store, options.cacheTtlMs);
     }
 
     if (items.length > 0) {
-      this.spatialIndex.load(items);
+      this.spatialIndex.load(this.claimInitialIds(items));
     }
   }
 
-  static from<T extends GeoPoint>(items: T[], options?: GeoSearchOptions): GeoSearch<T> {
+  // Items need top-level lat/lng fields, unless the options say where to find
+  // their coordinates instead
+  static from<T extends GeoPoint>(items: T[], options?: GeoSearchOptions<T>): GeoSearch<T>;
+  static from<T extends object>(
+    items: T[],
+    options: GeoSearchOptions<T> & CoordinateOptions<T>
+  ): GeoSearch<T>;
+  static from<T extends object>(items: T[], options?: GeoSearchOptions<T>): GeoSearch<T> {
     return new GeoSearch<T>(items, options);
   }
 
+  // Builds an instance from Point features. Items are the feature properties
+  // with lat/lng from the geometry. Invalid and non-Point features throw unless
+  // onInvalidFeature is given, in which case they're reported there and skipped.
+  static fromGeoJSON<P extends object>(
+    collection: GeoJSONFeatureCollection<P>,
+    options: FromGeoJSONOptions = {}
+  ): GeoSearch<P & GeoPoint> {
+    const { onInvalidFeature, ...searchOptions } = options;
+    const { items, invalid } = parseFeatureCollection(collection);
+
+    if (invalid.length > 0) {
+      if (!onInvalidFeature) {
+        const [first] = invalid;
+        throw new Error(
+          `fromGeoJSON() found ${invalid.length} invalid feature(s); ` +
+            `feature ${first!.index}: ${first!.reason}. ` +
+            'Pass onInvalidFeature to skip and report them instead.'
+        );
+      }
+      invalid.forEach(onInvalidFeature);
+    }
+
+    return new GeoSearch<P & GeoPoint>(items, searchOptions);
+  }
+
+  // Opens a serialize() snapshot without rebuilding the index. items must be
+  // the same items in the same order (see serialize()); the snapshot decides
+  // static vs dynamic mode, so options.static can be left out. Hybrid indexes
+  // save static snapshots, which reopen in hybrid mode with static: 'hybrid'.
+  static deserialize<T extends object>(
+    data: ArrayBuffer | ArrayBufferView,
+    items: T[],
+    options: GeoSearchOptions<T> = {}
+  ): GeoSearch<T> {
+    const { kind } = readSnapshotHeader(data);
+    const isStatic = kind === 'static';
+    const hybrid = isStatic && options.static === 'hybrid';
+    if (options.static !== undefined && options.static !== isStatic && !hybrid) {
+      throw new Error(
+        `Snapshot is of a ${kind} index but options.static is ${String(options.static)}.`
+      );
+    }
+
+    const search = new GeoSearch<T>([], { ...options, static: hybrid ? 'hybrid' : isStatic });
+    search.spatialIndex.restore(data, search.claimInitialIds(items));
+    return search;
+  }
+
+  // Spatial join between two datasets. Pass a query on either side to filter
+  // it: GeoSearch.join(gyms.where('rating', 'greaterThan', 4), stops, { radiusKm: 0.5 })
+  static join<L extends object, R extends object>(
+    left: GeoSearch<L> | QueryBuilder<L, boolean>,
+    right: GeoSearch<R> | QueryBuilder<R, boolean>,
+    options: JoinOptions
+  ): Array<JoinPair<L, R>> {
+    const leftQuery = left instanceof GeoSearch ? left.query() : left;
+    const rightQuery = right instanceof GeoSearch ? right.query() : right;
+    return leftQuery.join(rightQuery, options);
+  }
+
   add(item: T): this {
-    this.spatialIndex.add(item);
-    this.invalidateCache();
-    return this;
+    return this.insert([item], this.duplicateIds, () => this.spatialIndex.add(item));
   }
 
   addMany(items: T[]): this {
-    this.spatialIndex.addMany(items);
-    this.invalidateCache();
-    return this;
+    return this.insert(items, this.duplicateIds, (added) => this.spatialIndex.addMany(added));
+  }
+
+  // Adds the item, or replaces the indexed item with the same id
+  upsert(item: T): this {
+    this.requireIds('upsert');
+    return this.insert([item], 'replace', () => this.spatialIndex.add(item));
   }
 
+  // With ids configured, removes whichever indexed item has this item's id,
+  // so a re-fetched copy of a record removes the original
   remove(item: T): boolean {
-    const result = this.spatialIndex.remove(item);
+    const indexed = this.ids ? this.ids.get(this.ids.idOf(item)) : item;
+    if (indexed === undefined) {
+      return false;
+    }
+    const result = this.spatialIndex.remove(indexed);
     if (result) {
-      this.invalidateCache();
+      this.ids?.delete(indexed);
+      this.attributes.remove([indexed]);
+      this.invalidateCache([indexed]);
+      this.live.itemsChanged([indexed]);
     }
     return result;
   }
 
+  removeById(id: ItemId): boolean {
+    const item = this.requireIds('removeById').get(id);
+    return item === undefined ? false : this.remove(item);
+  }
+
+  get(id: ItemId): T | undefined {
+    return this.requireIds('get').get(id);
+  }
+
+  has(id: ItemId): boolean {
+    return this.requireIds('has').has(id);
+  }
+
+  // Writes the new position into the item (its lat/lng, or latField/lngField)
+  // and re-positions it in the tree, instead of a remove() and add(). Returns
+  // false if no item has this id.
+  move(id: ItemId, point: GeoPoint): boolean {
+    const item = this.requireIds('move').get(id);
+    if (item === undefined) {
+      return false;
+    }
+    if (!this.setCoordinates) {
+      throw new Error(
+        'move() cannot write coordinates read by getCoordinates. Use upsert() with an updated item.'
+      );
+    }
+    this.spatialIndex.move(item, point);
+    // Cached queries around the old position, then around the new one. An
+    // index on a coordinate field sees the write the same way.
+    this.invalidateCache([item]);
+    this.attributes.remove([item]);
+    this.setCoordinates(item, point);
+    this.attributes.add([item]);
+    this.invalidateCache([item]);
+    this.live.itemsChanged([item]);
+    return true;
+  }
+
   clear(): this {
     this.spatialIndex.clear();
-    this.invalidateCache();
+    this.ids?.clear();
+    this.attributes.clear();
+    this.invalidateCache(null);
+    this.live.cleared();
     return this;
   }
 
-  // Any mutation invalidates the entire cache - partial invalidation would be
-  // complex and error-prone for minimal gain in typical usage patterns
-  private invalidateCache(): void {
-    if (this.cache) {
-      this.cache.clear();
+  private requireIds(method: string): ItemIdMap<T> {
+    if (!this.ids) {
+      throw new Error(`${method}() needs the idField or getId option.`);
+    }
+    return this.ids;
+  }
+
+  // Ids for the items an index starts with. Under 'replace', a later item
+  // with a repeated id takes the earlier one's place.
+  private claimInitialIds(items: T[]): T[] {
+    const ids = this.ids;
+    if (!ids) {
+      return items;
+    }
+    if (this.duplicateIds === 'error') {
+      ids.assertUnique(items);
     }
+    const unique = ids.unique(items);
+    unique.forEach((item) => ids.set(item));
+    return unique;
+  }
+
+  // Shared by add(), addMany() and upsert(). Duplicate ids are resolved
+  // before the index is touched, so an 'error' leaves everything as it was.
+  private insert(items: T[], policy: DuplicateIdPolicy, addToIndex: (added: T[]) => void): this {
+    const ids = this.ids;
+    let added = items;
+    const replaced: T[] = [];
+
+    if (ids && policy === 'error') {
+      ids.assertUnique(items);
+    } else if (ids) {
+      added = ids.unique(items);
+      for (const item of added) {
+        const existing = ids.get(ids.idOf(item));
+        if (existing !== undefined) replaced.push(existing);
+      }
+    }
+
+    for (const item of replaced) {
+      this.spatialIndex.remove(item);
+    }
+    addToIndex(added);
+    added.forEach((item) => ids?.set(item));
+    this.attributes.remove(replaced);
+    this.attributes.add(added);
+    this.invalidateCache([...replaced, ...added]);
+    this.live.itemsChanged([...replaced, ...added]);
+    return this;
+  }
+
+  // Secondary index on a top-level field, which where() filters on that
+  // field use instead of checking every candidate. 'hash' answers equals and
+  // in; 'sorted' also answers greaterThan, lessThan, between and the like.
+  // Replaces any index the field already has. Indexes are kept up to date
+  // through add(), remove(), upsert() and move(), so change an indexed field
+  // with upsert() or remove() and add() rather than in place.
+  createIndex(field: keyof T, options: AttributeIndexOptions = {}): this {
+    this.attributes.create(field, options.type ?? 'hash', this.spatialIndex.all());
+    return this;
+  }
+
+  dropIndex(field: keyof T): boolean {
+    return this.attributes.drop(field);
+  }
+
+  // Hybrid mode: rebuilds the static base now instead of waiting for
+  // compactThreshold. Does nothing in the other modes.
+  compact(): this {
+    if (this.spatialIndex instanceof HybridSpatialIndex) {
+      this.spatialIndex.compact();
+    }
+    return this;
+  }
+
+  // Binary snapshot of the built index - transferable to workers and cheap
+  // to reopen with GeoSearch.deserialize(). Items aren't included: they're
+  // referenced by position in the array that was loaded (static mode), or by
+  // insertion order among the items still indexed or their all() order
+  // (dynamic mode). Hybrid mode compacts first and then matches static mode,
+  // with all() as the array.
+  serialize(): ArrayBuffer {
+    return this.spatialIndex.serialize();
+  }
+
+  // Evicts the cached queries whose region holds one of the changed items,
+  // or every cached query for null (clear())
+  private invalidateCache(changed: T[] | null): void {
+    if (this.cache && changed) {
+      this.cache.invalidate(changed.map((item) => this.spatialIndex.coordinates(item)));
+    } else {
+      this.cache?.clear();
+    }
+    // Clusters are derived from the full dataset, same as cached results
+    this.clusterer = null;
   }
 
   get size(): number {
@@ -86,8 +359,41 @@ export class GeoSearch<T extends GeoPoint> {
     this.cache?.clear();
   }
 
-  near(center: GeoPoint, radiusKm: number): QueryBuilder<T, true> {
-    return new QueryBuilder<T, false>(this.spatialIndex, undefined, this.cache).near(center, radiusKm);
+  // Hit rate, invalidations, evictions and estimated memory of the cache,
+  // or null without the cache option
+  cacheStats(): CacheStats | null {
+    return this.cache?.stats() ?? null;
+  }
+
+  private createQuery(): QueryBuilder<T, false> {
+    return new QueryBuilder<T, false>(
+      this.spatialIndex,
+      { units: this.units, clusterOptions: this.clusterOptions },
+      this.cache,
+      this.live,
+      this.attributes
+    );
+  }
+
+  near(
+    center: GeoPoint,
+    radius: number,
+    options?: {
+      units?: DistanceUnit;
+      minRadius?: number;
+      minRadiusKm?: number;
+      sector?: BearingSector;
+    }
+  ): QueryBuilder<T, true> {
+    return this.createQuery().near(center, radius, options);
+  }
+
+  nearest(
+    center: GeoPoint,
+    k: number,
+    options?: { maxDistance?: number; maxDistanceKm?: number; units?: DistanceUnit }
+  ): QueryBuilder<T, true> {
+    return this.createQuery().nearest(center, k, options);
   }
 
   withinBounds(bounds: {
@@ -96,7 +402,24 @@ export class GeoSearch<T extends GeoPoint> {
     minLng: number;
     maxLng: number;
   }): QueryBuilder<T, false> {
-    return new QueryBuilder<T, false>(this.spatialIndex, undefined, this.cache).withinBounds(bounds);
+    return this.createQuery().withinBounds(bounds);
+  }
+
+  withinPolygon(polygon: PolygonInput): QueryBuilder<T, false> {
+    return this.createQuery().withinPolygon(polygon);
+  }
+
+  withinGeohash(hash: string | string[]): QueryBuilder<T, false> {
+    return this.createQuery().withinGeohash(hash);
+  }
+
+  withinTile(
+    z: number,
+    x: number,
+    y: number,
+    options?: { bufferPx?: number }
+  ): QueryBuilder<T, false> {
+    return this.createQuery().withinTile(z, x, y, options);
   }
 
   where<K extends keyof T>(
@@ -119,19 +442,38 @@ export class GeoSearch<T extends GeoPoint> {
       | 'notIn',
     value: unknown
   ): QueryBuilder<T, false> {
-    return new QueryBuilder<T, false>(this.spatialIndex, undefined, this.cache).where(field, operator, value);
+    return this.createQuery().where(field, operator, value);
   }
 
   sortBy(criteria: Array<{ field: keyof T; order: 'asc' | 'desc' }>): QueryBuilder<T, false> {
-    return new QueryBuilder<T, false>(this.spatialIndex, undefined, this.cache).sortBy(criteria);
+    return this.createQuery().sortBy(criteria);
   }
 
   all(): T[] {
     return this.spatialIndex.all();
   }
 
+  private getClusterer(): PointClusterer<T> {
+    if (!this.clusterer) {
+      this.clusterer = new PointClusterer(this.spatialIndex.all(), this.clusterOptions, (item) =>
+        this.spatialIndex.coordinates(item)
+      );
+    }
+    return this.clusterer;
+  }
+
+  // For filtered clusters, call cluster() on a query instead:
+  // search.where('rating', 'greaterThan', 4).cluster(bounds, zoom)
+  cluster(bounds: BoundingBox, zoom: number): Array<ClusterResult<T>> {
+    return this.getClusterer().getClusters(bounds, zoom);
+  }
+
+  getClusterLeaves(clusterId: number, limit?: number, offset?: number): T[] {
+    return this.getClusterer().getLeaves(clusterId, limit, offset);
+  }
+
   query(): QueryBuilder<T, false> {
-    return new QueryBuilder<T, false>(this.spatialIndex, undefined, this.cache);
+    return this.createQuery();
   }
 }
 
@@ -5,28 +5,96 @@ import type {
   SortCriteria,
   FilterOperator,
   BoundingBox,
+  NearestFilter,
+  RadiusFilter,
+  BearingSector,
+  VectorTileOptions,
+  GeoJSONPointCollection,
+  GeoJSONResultProperties,
+  PolygonInput,
+  DistanceUnit,
+  ClusterResult,
+  AggregationSpec,
+  AggregationResult,
+  DensityOptions,
+  DensityResult,
+  JoinOptions,
+  JoinPair,
   WithDistance,
   QueryMetadataWithCache,
+  QueryStream,
+  LiveQueryDelta,
 } from './types.js';
 import type { ISpatialIndex } from '../spatial/index.js';
 import { evaluateFilter } from '../filters/index.js';
-import type { LRUCache } from '../utils/LRUCache.js';
+import { isPointInBounds, radiusToBoundingBox, splitBounds } from '../spatial/bounds.js';
+import { encodeGeohash, geohashBounds } from '../spatial/geohash.js';
+import { tileToBounds } from '../spatial/tiles.js';
+import {
+  toKilometers,
+  fromKilometers,
+  initialBearing,
+  isBearingInSector,
+  METRIC_TOLERANCE,
+} from '../spatial/distance.js';
+import { normalizePolygon, polygonBounds, isPointInPolygon } from '../spatial/polygon.js';
+import { PointClusterer } from '../cluster/index.js';
+import { Aggregator, DensityGrid } from '../aggregations/index.js';
+import { VectorTileEncoder } from '../tiles/index.js';
+import { toPointFeature } from '../geojson/index.js';
 import { generateCacheKey } from '../utils/LRUCache.js';
+import type { QueryCache, CacheRegion } from '../cache/index.js';
+import { encodeCursor, decodeCursor, compareSortKeys } from '../utils/cursor.js';
+import { diffLiveEntries, type LiveQueryRegistry, type LiveEntry } from '../live/index.js';
+import type { AttributeIndexes } from '../indexes/index.js';
+
+// A candidate moving through the pipeline. Distance is set by radius and
+// nearest searches, bearing only when a sector is in play, score only when
+// a score function is.
+interface Candidate<T> {
+  item: T;
+  distance?: number;
+  bearing?: number;
+  score?: number;
+}
+
+type ResultItem<T, HasDistance extends boolean> = HasDistance extends true ? WithDistance<T> : T;
+
+// Every STREAM_YIELD_EVERY results an async stream lets the event loop run
+const STREAM_YIELD_EVERY = 1000;
+
+// Alongside a spatial filter, an attribute index replaces the tree lookup
+// only when it matches at most 1 in INDEX_SPATIAL_RATIO items. Spatial
+// filters tend to be selective, and checking each index match against them
+// costs more per item than the tree search does.
+const INDEX_SPATIAL_RATIO = 32;
+
+function isPointInAnyBounds(point: GeoPoint, cells: BoundingBox[]): boolean {
+  return cells.some((cell) => isPointInBounds(point, cell));
+}
 
 // Immutable query builder - each method returns a new instance.
 // This enables safe query reuse: baseQuery.where(...) doesn't mutate baseQuery
-export class QueryBuilder<T extends GeoPoint, HasDistance extends boolean = false> {
+export class QueryBuilder<T extends object, HasDistance extends boolean = false> {
   private readonly spatialIndex: ISpatialIndex<T>;
   private readonly state: QueryState<T>;
-  private readonly cache: LRUCache<string, unknown> | null;
+  private readonly cache: QueryCache | null;
+  private readonly live: LiveQueryRegistry<T> | null;
+  private readonly attributes: AttributeIndexes<T> | null;
+  // Built on first cluster() call, and again once the index has changed since
+  private clusterer: { built: PointClusterer<T>; version: number } | null = null;
 
   constructor(
     spatialIndex: ISpatialIndex<T>,
     state?: Partial<QueryState<T>>,
-    cache?: LRUCache<string, unknown> | null
+    cache?: QueryCache | null,
+    live?: LiveQueryRegistry<T> | null,
+    attributes?: AttributeIndexes<T> | null
   ) {
     this.spatialIndex = spatialIndex;
     this.cache = cache ?? null;
+    this.live = live ?? null;
+    this.attributes = attributes ?? null;
     this.state = {
       attributeFilters: [],
       sortCriteria: [],
@@ -44,7 +112,9 @@ export class QueryBuilder<T extends GeoPoint, HasDistance extends boolean = fals
         ...this.state,
         ...updates,
       },
-      this.cache
+      this.cache,
+      this.live,
+      this.attributes
     );
   }
 
@@ -52,18 +122,68 @@ export class QueryBuilder<T extends GeoPoint, HasDistance extends boolean = fals
     // Only cache serializable state - functions can't be reliably hashed
     const cacheableState = {
       radiusFilter: this.state.radiusFilter,
+      nearestFilter: this.state.nearestFilter,
       boundsFilter: this.state.boundsFilter,
+      polygonFilter: this.state.polygonFilter,
+      geohashHashes: this.state.geohashFilter?.hashes,
+      tileFilter: this.state.tileFilter,
       attributeFilters: this.state.attributeFilters,
       sortCriteria: this.state.sortCriteria,
       limitCount: this.state.limitCount,
       offsetCount: this.state.offsetCount,
+      afterCursor: this.state.afterCursor,
+      units: this.state.units,
     };
     return generateCacheKey(cacheableState);
   }
 
-  near(center: GeoPoint, radiusKm: number): QueryBuilder<T, true> {
+  // Radius is in `options.units`, falling back to the instance's units (km
+  // unless configured). Those units also apply to the distance on results.
+  // minRadius turns the circle into a ring; sector keeps only bearings from
+  // fromBearing clockwise to toBearing and adds `bearing` to each result.
+  near(
+    center: GeoPoint,
+    radius: number,
+    options: {
+      units?: DistanceUnit;
+      minRadius?: number;
+      minRadiusKm?: number;
+      sector?: BearingSector;
+    } = {}
+  ): QueryBuilder<T, true> {
+    const units = options.units ?? this.state.units;
+    const minRadiusKm =
+      options.minRadius !== undefined
+        ? toKilometers(options.minRadius, units)
+        : options.minRadiusKm;
+
+    const radiusFilter: RadiusFilter = { center, radiusKm: toKilometers(radius, units) };
+    if (minRadiusKm !== undefined) {
+      radiusFilter.minRadiusKm = minRadiusKm;
+    }
+    if (options.sector) {
+      radiusFilter.sector = options.sector;
+    }
+
+    return this.clone<true>({ radiusFilter, units });
+  }
+
+  // k-nearest-neighbor search. Attribute filters are applied during the index
+  // traversal, so .nearest(c, 5).where(...) returns 5 items whenever 5 match.
+  // near() and withinBounds() still apply; distances are measured from `center`.
+  nearest(
+    center: GeoPoint,
+    k: number,
+    options: { maxDistance?: number; maxDistanceKm?: number; units?: DistanceUnit } = {}
+  ): QueryBuilder<T, true> {
+    const units = options.units ?? this.state.units;
+    const maxDistanceKm =
+      options.maxDistance !== undefined
+        ? toKilometers(options.maxDistance, units)
+        : options.maxDistanceKm;
     return this.clone<true>({
-      radiusFilter: { center, radiusKm },
+      nearestFilter: { center, k, maxDistanceKm },
+      units,
     });
   }
 
@@ -73,6 +193,49 @@ export class QueryBuilder<T extends GeoPoint, HasDistance extends boolean = fals
     });
   }
 
+  // Accepts a ring of points, an outer ring plus holes, or a GeoJSON
+  // Polygon/MultiPolygon. Input is normalized up front so the state stays
+  // plain data and can be part of the cache key.
+  withinPolygon(polygon: PolygonInput): QueryBuilder<T, HasDistance> {
+    const polygons = normalizePolygon(polygon);
+    return this.clone({
+      polygonFilter: { polygons, bounds: polygonBounds(polygons) },
+    });
+  }
+
+  // Keeps items inside any of the given geohash cells. Each cell becomes a
+  // bounds lookup; a cell already covered by a shorter hash in the list is dropped.
+  withinGeohash(hash: string | string[]): QueryBuilder<T, HasDistance> {
+    const sorted = [
+      ...new Set((Array.isArray(hash) ? hash : [hash]).map((h) => h.toLowerCase())),
+    ].sort((a, b) => a.length - b.length);
+    const hashes: string[] = [];
+    for (const candidate of sorted) {
+      if (!hashes.some((kept) => candidate.startsWith(kept))) hashes.push(candidate);
+    }
+    if (hashes.length === 0) {
+      throw new Error('withinGeohash() needs at least one geohash.');
+    }
+
+    return this.clone({
+      geohashFilter: { hashes, cells: hashes.map(geohashBounds) },
+    });
+  }
+
+  // Keeps items inside slippy-map tile z/x/y, plus bufferPx (of a 256px tile)
+  // around it so symbols at tile edges aren't clipped. Pairs with toVectorTile().
+  withinTile(
+    z: number,
+    x: number,
+    y: number,
+    options: { bufferPx?: number } = {}
+  ): QueryBuilder<T, HasDistance> {
+    const bufferPx = options.bufferPx ?? 0;
+    return this.clone({
+      tileFilter: { z, x, y, bufferPx, bounds: tileToBounds(z, x, y, bufferPx) },
+    });
+  }
+
   where<K extends keyof T>(
     field: K,
     operator: FilterOperator,
@@ -117,84 +280,558 @@ export class QueryBuilder<T extends GeoPoint, HasDistance extends boolean = fals
     });
   }
 
-  private executeInternal(): HasDistance extends true ? WithDistance<T>[] : T[] {
-    let candidates: Array<{ item: T; distance?: number }>;
+  // Resume after the last row of a previous page, using the nextCursor from
+  // executeWithMetadata(). Unlike offset(), pages don't shift when items are
+  // added or removed in between. Needs the same sortBy() as the first page.
+  after(cursor: string): QueryBuilder<T, HasDistance> {
+    return this.clone({
+      afterCursor: cursor,
+    });
+  }
+
+  private matchesAttributeFilters(item: T): boolean {
+    for (const filter of this.state.attributeFilters) {
+      if (!evaluateFilter(item, filter.field, filter.operator, filter.value)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private searchNearestCandidates(nearest: NearestFilter): Array<Candidate<T>> {
+    const { radiusFilter } = this.state;
+
+    // A radius around the same center also caps how far the traversal has to
+    // go. Every other filter is checked per item as the traversal reaches it.
+    let maxDistanceKm = nearest.maxDistanceKm;
+    if (
+      radiusFilter &&
+      radiusFilter.center.lat === nearest.center.lat &&
+      radiusFilter.center.lng === nearest.center.lng
+    ) {
+      maxDistanceKm = Math.min(maxDistanceKm ?? Infinity, radiusFilter.radiusKm);
+    }
+
+    return this.spatialIndex.searchNearest(nearest.center, nearest.k, maxDistanceKm, (item) =>
+      this.matchesQuery(item)
+    );
+  }
+
+  // Annulus and sector checks on top of the plain radius. Returns the bearing
+  // when a sector is set so callers can put it on the result.
+  private checkRadiusFilter(
+    point: GeoPoint,
+    filter: RadiusFilter,
+    distance: number
+  ): { matches: boolean; bearing?: number } {
+    if (distance > filter.radiusKm) {
+      return { matches: false };
+    }
+    if (filter.minRadiusKm !== undefined && distance < filter.minRadiusKm) {
+      return { matches: false };
+    }
+    if (filter.sector) {
+      const bearing = initialBearing(filter.center, point);
+      return { matches: isBearingInSector(bearing, filter.sector), bearing };
+    }
+    return { matches: true };
+  }
+
+  // Single-item version of the whole filter pipeline, for callers that bring
+  // their own candidates
+  private matchesQuery(item: T): boolean {
+    return (
+      this.matchesSpatialFilters(this.spatialIndex.coordinates(item)) &&
+      this.matchesAttributeFilters(item)
+    );
+  }
+
+  // Every spatial filter but nearest(), which depends on the other items
+  private matchesSpatialFilters(point: GeoPoint): boolean {
+    const { radiusFilter } = this.state;
+    if (radiusFilter) {
+      const distance = this.spatialIndex.distance(radiusFilter.center, point);
+      if (!this.checkRadiusFilter(point, radiusFilter, distance).matches) {
+        return false;
+      }
+    }
+    return this.matchesAreaFilters(point);
+  }
+
+  // Bounds, polygon, geohash and tile filters - all of them apply together
+  private matchesAreaFilters(point: GeoPoint): boolean {
+    const { boundsFilter, polygonFilter, geohashFilter, tileFilter } = this.state;
+    if (boundsFilter && !isPointInBounds(point, boundsFilter)) {
+      return false;
+    }
+    if (polygonFilter && !isPointInPolygon(point, polygonFilter.polygons)) {
+      return false;
+    }
+    if (geohashFilter && !isPointInAnyBounds(point, geohashFilter.cells)) {
+      return false;
+    }
+    if (tileFilter && !isPointInBounds(point, tileFilter.bounds)) {
+      return false;
+    }
+    return true;
+  }
+
+  // Spatial stage only - uses R-tree/KD-tree to narrow candidates quickly
+  // before expensive attribute filtering
+  private getSpatialCandidates(): Array<Candidate<T>> {
+    let candidates: Array<Candidate<T>>;
 
-    // Spatial filter first - uses R-tree/KD-tree to narrow candidates quickly
-    // before expensive attribute filtering
     if (this.state.radiusFilter) {
-      candidates = this.spatialIndex.searchRadius(
-        this.state.radiusFilter.center,
-        this.state.radiusFilter.radiusKm
-      );
+      const radiusFilter = this.state.radiusFilter;
+      candidates = this.spatialIndex.searchRadius(radiusFilter.center, radiusFilter.radiusKm);
+
+      // Rings and sectors are carved out of the full circle after the lookup
+      if (radiusFilter.minRadiusKm !== undefined || radiusFilter.sector) {
+        const carved: Array<Candidate<T>> = [];
+        for (const { item, distance } of candidates) {
+          const point = this.spatialIndex.coordinates(item);
+          const { matches, bearing } = this.checkRadiusFilter(point, radiusFilter, distance!);
+          if (matches) {
+            carved.push(bearing === undefined ? { item, distance } : { item, distance, bearing });
+          }
+        }
+        candidates = carved;
+      }
     } else if (this.state.boundsFilter) {
       const items = this.spatialIndex.searchBounds(this.state.boundsFilter);
       candidates = items.map((item) => ({ item }));
+    } else if (this.state.polygonFilter) {
+      const items = this.spatialIndex.searchBounds(this.state.polygonFilter.bounds);
+      candidates = items.map((item) => ({ item }));
+    } else if (this.state.geohashFilter) {
+      // Neighboring cells share edges, so an item on a border can come back twice
+      const seen = new Set<T>();
+      for (const cell of this.state.geohashFilter.cells) {
+        for (const item of this.spatialIndex.searchBounds(cell)) seen.add(item);
+      }
+      candidates = [...seen].map((item) => ({ item }));
+    } else if (this.state.tileFilter) {
+      const items = this.spatialIndex.searchBounds(this.state.tileFilter.bounds);
+      candidates = items.map((item) => ({ item }));
     } else {
       const items = this.spatialIndex.all();
       candidates = items.map((item) => ({ item }));
     }
 
+    // The lookup only used one filter. Every area filter is tested exactly on
+    // what it returned - the same rule matchesSpatialFilters applies - unless
+    // the lookup was that test already: a lone bounds, geohash or tile filter.
+    const { radiusFilter, boundsFilter, polygonFilter, geohashFilter, tileFilter } = this.state;
+    const areaFilters = [boundsFilter, polygonFilter, geohashFilter, tileFilter].filter(
+      (filter) => filter !== undefined
+    ).length;
+    const lookupIsExact =
+      areaFilters === 0 || (!radiusFilter && !polygonFilter && areaFilters === 1);
+    if (!lookupIsExact) {
+      candidates = candidates.filter((candidate) =>
+        this.matchesAreaFilters(this.spatialIndex.coordinates(candidate.item))
+      );
+    }
+
+    return candidates;
+  }
+
+  // The items matching the most selective where() filter an attribute index
+  // can answer, in insertion order - or null when the regular pipeline is
+  // cheaper. Without a spatial filter any index that narrows things down
+  // beats scanning every item.
+  private getIndexedItems(): { filter: FilterCondition<T>; items: T[] } | null {
+    const plan = this.attributes?.plan(this.state.attributeFilters);
+    if (!plan) {
+      return null;
+    }
+    const { nearestFilter, radiusFilter, boundsFilter, polygonFilter, geohashFilter, tileFilter } =
+      this.state;
+    const spatial =
+      nearestFilter ?? radiusFilter ?? boundsFilter ?? polygonFilter ?? geohashFilter ?? tileFilter;
+    const total = this.spatialIndex.size;
+    if (spatial ? plan.count * INDEX_SPATIAL_RATIO > total : plan.count >= total) {
+      return null;
+    }
+    const items = this.attributes!.lookup(plan.filter);
+    const seq = (item: T) => this.spatialIndex.sequenceOf(item);
+    items.sort((a, b) => seq(a) - seq(b));
+    return { filter: plan.filter, items };
+  }
+
+  // Spatial stage for items an attribute index picked: each is checked
+  // against the spatial filters directly instead of going through the tree
+  private getIndexedCandidates(items: T[]): Array<Candidate<T>> {
+    const { radiusFilter } = this.state;
+    const candidates: Array<Candidate<T>> = [];
+    for (const item of items) {
+      const point = this.spatialIndex.coordinates(item);
+      if (!this.matchesSpatialFilters(point)) {
+        continue;
+      }
+      if (!radiusFilter) {
+        candidates.push({ item });
+        continue;
+      }
+      const distance = this.spatialIndex.distance(radiusFilter.center, point);
+      candidates.push(
+        radiusFilter.sector
+          ? { item, distance, bearing: initialBearing(radiusFilter.center, point) }
+          : { item, distance }
+      );
+    }
+    return candidates;
+  }
+
+  // k-nearest over items an attribute index picked, by distance and then
+  // insertion order
+  private nearestIndexedCandidates(nearest: NearestFilter, items: T[]): Array<Candidate<T>> {
+    const maxDistanceKm = nearest.maxDistanceKm ?? Infinity;
+    const hits: Array<{ item: T; distance: number }> = [];
+    for (const item of items) {
+      if (!this.matchesQuery(item)) {
+        continue;
+      }
+      const distance = this.spatialIndex.distance(
+        nearest.center,
+        this.spatialIndex.coordinates(item)
+      );
+      if (distance <= maxDistanceKm) {
+        hits.push({ item, distance });
+      }
+    }
+    // Stable sort, so equal distances keep insertion order
+    hits.sort((a, b) => a.distance - b.distance);
+    return hits.slice(0, Math.max(0, nearest.k));
+  }
+
+  // Runs the spatial + attribute pipeline, returning every match before
+  // scoring, sorting and pagination
+  private getFilteredCandidates(): Array<Candidate<T>> {
+    const indexed = this.getIndexedItems();
+
+    if (this.state.nearestFilter) {
+      return indexed
+        ? this.nearestIndexedCandidates(this.state.nearestFilter, indexed.items)
+        : this.searchNearestCandidates(this.state.nearestFilter);
+    }
+
     // Attribute filters applied sequentially - each filter reduces the set
     // for the next, so order can affect performance on large datasets
-    let filtered = candidates;
+    let filtered = indexed ? this.getIndexedCandidates(indexed.items) : this.getSpatialCandidates();
     for (const filter of this.state.attributeFilters) {
+      if (filter === indexed?.filter) continue;
       filtered = filtered.filter((candidate) =>
         evaluateFilter(candidate.item, filter.field, filter.operator, filter.value)
       );
     }
 
-    if (this.state.scoreFunction) {
-      filtered = filtered.map((candidate) => ({
-        ...candidate,
-        score: this.state.scoreFunction!(candidate.item, candidate.distance),
-      }));
+    return filtered;
+  }
+
+  private getClusterer(): PointClusterer<T> {
+    const { version } = this.spatialIndex;
+    if (this.clusterer?.version !== version) {
+      const items = this.getFilteredCandidates().map((candidate) => candidate.item);
+      const built = new PointClusterer(items, this.state.clusterOptions, (item) =>
+        this.spatialIndex.coordinates(item)
+      );
+      this.clusterer = { built, version };
     }
+    return this.clusterer.built;
+  }
 
-    if (this.state.sortCriteria.length > 0) {
-      filtered.sort((a, b) => {
-        for (const criterion of this.state.sortCriteria) {
-          const field = criterion.field;
-          let aVal: unknown;
-          let bVal: unknown;
-
-          if (field === 'distance') {
-            aVal = a.distance ?? Infinity;
-            bVal = b.distance ?? Infinity;
-          } else if (field === 'score' && 'score' in a && 'score' in b) {
-            aVal = (a as { score: number }).score;
-            bVal = (b as { score: number }).score;
-          } else {
-            aVal = a.item[field as keyof T];
-            bVal = b.item[field as keyof T];
-          }
+  // Clusters the items matching this query's spatial and attribute filters, so
+  // cluster counts line up with execute(). Sorting and pagination don't apply.
+  cluster(bounds: BoundingBox, zoom: number): Array<ClusterResult<T>> {
+    return this.getClusterer().getClusters(bounds, zoom);
+  }
+
+  getClusterLeaves(clusterId: number, limit?: number, offset?: number): T[] {
+    return this.getClusterer().getLeaves(clusterId, limit, offset);
+  }
+
+  // Facet counts over the same candidates execute() would see. The spatial
+  // stage runs once; each item's filters are evaluated once to decide which
+  // facets it counts toward. Sorting and pagination don't apply.
+  aggregate(spec: AggregationSpec<T>): AggregationResult {
+    const aggregator = new Aggregator<T>(spec);
+
+    // k-nearest results depend on the filters themselves, so there's no
+    // meaningful "excluding this filter" set - facets use the k results as-is
+    if (this.state.nearestFilter) {
+      for (const candidate of this.getFilteredCandidates()) {
+        aggregator.add(candidate.item);
+      }
+      return aggregator.result();
+    }
+
+    const disjunctive = new Set(spec.disjunctive ?? []);
 
-          if (aVal === bVal) continue;
+    for (const { item } of this.getSpatialCandidates()) {
+      let rejectedField: keyof T | undefined;
+      let rejected = false;
 
-          const comparison = aVal! < bVal! ? -1 : 1;
-          return criterion.order === 'asc' ? comparison : -comparison;
+      for (const filter of this.state.attributeFilters) {
+        if (evaluateFilter(item, filter.field, filter.operator, filter.value)) continue;
+
+        // Failing a single disjunctive field's filters still counts toward
+        // that field's own facets; failing anything else rules the item out
+        if (
+          disjunctive.has(filter.field) &&
+          (rejectedField === undefined || rejectedField === filter.field)
+        ) {
+          rejectedField = filter.field;
+        } else {
+          rejected = true;
+          break;
         }
-        return 0;
-      });
+      }
+
+      if (!rejected) {
+        aggregator.add(item, rejectedField);
+      }
     }
 
-    // Offset/limit applied after sorting - pagination requires stable order
-    let results = filtered;
-    if (this.state.offsetCount > 0) {
-      results = results.slice(this.state.offsetCount);
+    return aggregator.result();
+  }
+
+  // Match counts per geohash cell, keyed by hash. Only cells with at least
+  // one match appear.
+  groupByGeohash(precision: number): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const { item } of this.getFilteredCandidates()) {
+      const { lat, lng } = this.spatialIndex.coordinates(item);
+      const hash = encodeGeohash(lat, lng, precision);
+      counts[hash] = (counts[hash] ?? 0) + 1;
     }
-    if (this.state.limitCount !== undefined) {
-      results = results.slice(0, this.state.limitCount);
+    return counts;
+  }
+
+  // Encodes the matches as a single-layer Mapbox Vector Tile for the tile set
+  // with withinTile(). Points in the buffer are kept, just outside 0..extent.
+  toVectorTile(options: VectorTileOptions<T> = {}): Uint8Array {
+    const { tileFilter } = this.state;
+    if (!tileFilter) {
+      throw new Error('toVectorTile() requires withinTile() to know which tile to encode.');
+    }
+
+    const encoder = new VectorTileEncoder<T>(tileFilter, options);
+    for (const { item } of this.getFilteredCandidates()) {
+      encoder.add(item, this.spatialIndex.coordinates(item));
+    }
+    return encoder.finish();
+  }
+
+  // Sparse heatmap grid over the matching items. Items are binned straight
+  // from the candidate list - no result objects are built along the way.
+  density(options: DensityOptions<T>): DensityResult {
+    const grid = new DensityGrid<T>(options);
+
+    if (this.state.nearestFilter) {
+      for (const { item } of this.getFilteredCandidates()) {
+        const point = this.spatialIndex.coordinates(item);
+        if (isPointInBounds(point, options.bounds)) grid.add(item, point);
+      }
+      return grid.result();
     }
 
-    const formattedResults = results.map((candidate) => {
-      if (this.state.radiusFilter && candidate.distance !== undefined) {
-        return { ...candidate.item, distance: candidate.distance };
+    // Without a spatial filter of our own, the grid bounds can drive the index
+    // lookup instead of scanning everything
+    const hasSpatialFilter =
+      (this.state.radiusFilter ??
+        this.state.boundsFilter ??
+        this.state.polygonFilter ??
+        this.state.geohashFilter ??
+        this.state.tileFilter) !== undefined;
+    const candidates = hasSpatialFilter
+      ? this.getSpatialCandidates().map((candidate) => candidate.item)
+      : this.spatialIndex.searchBounds(options.bounds);
+
+    for (const item of candidates) {
+      const point = this.spatialIndex.coordinates(item);
+      if (hasSpatialFilter && !isPointInBounds(point, options.bounds)) continue;
+      if (this.matchesAttributeFilters(item)) {
+        grid.add(item, point);
       }
-      return candidate.item;
+    }
+
+    return grid.result();
+  }
+
+  // Pairs every item matching this query with the items matching `right` that
+  // lie within radiusKm. Each left item drives a lookup in the right index, so
+  // the cost is O(n log m) rather than comparing every pair. Distances use the
+  // right index's metric and this query's units; pairs are grouped by left
+  // item, closest first. An item is never paired with itself, so self-joins
+  // work, though each pair then appears once from each side.
+  join<R extends object>(
+    right: QueryBuilder<R, boolean>,
+    options: JoinOptions
+  ): Array<JoinPair<T, R>> {
+    if (right.state.nearestFilter) {
+      throw new Error('join() does not support nearest() queries on the right side.');
+    }
+
+    const k = options.nearestOnly ? 1 : options.k;
+    const units = this.state.units;
+    const rightMatches = (item: R) => right.matchesQuery(item);
+    const pairs: Array<JoinPair<T, R>> = [];
+
+    for (const { item: left } of this.getFilteredCandidates()) {
+      const leftPoint = this.spatialIndex.coordinates(left);
+      let matches: Array<{ item: R; distance: number }>;
+      if (k !== undefined) {
+        matches = right.spatialIndex.searchNearest(
+          leftPoint,
+          k + 1,
+          options.radiusKm,
+          rightMatches
+        );
+      } else {
+        matches = right.spatialIndex
+          .searchRadius(leftPoint, options.radiusKm)
+          .filter((match) => rightMatches(match.item))
+          .sort((a, b) => a.distance - b.distance);
+      }
+
+      let paired = 0;
+      for (const match of matches) {
+        // Asked for k + 1 above so skipping a self-match still leaves k
+        if ((match.item as unknown) === left) continue;
+        if (k !== undefined && paired === k) break;
+        pairs.push({ left, right: match.item, distance: fromKilometers(match.distance, units) });
+        paired++;
+      }
+    }
+
+    return pairs;
+  }
+
+  // Sort criteria values, then distance and insertion order so that every row
+  // has a distinct key and cursors can resume exactly where a page ended
+  private sortKey(candidate: Candidate<T>): unknown[] {
+    const key: unknown[] = this.state.sortCriteria.map(({ field }) => {
+      if (field === 'distance') return candidate.distance;
+      if (field === 'score' && candidate.score !== undefined) return candidate.score;
+      return candidate.item[field];
     });
+    key.push(candidate.distance, this.spatialIndex.sequenceOf(candidate.item));
+    return key;
+  }
+
+  private sortDirections(): boolean[] {
+    return [...this.state.sortCriteria.map(({ order }) => order === 'desc'), false, false];
+  }
+
+  private sortSignature(): string {
+    return this.state.sortCriteria.map(({ field, order }) => `${String(field)}:${order}`).join(',');
+  }
+
+  // Everything internal is km; convert once so scoring, sorting and output
+  // all see the caller's units. Untouched candidates are passed through.
+  private prepareCandidate(candidate: Candidate<T>): Candidate<T> {
+    const { units, scoreFunction } = this.state;
+    let prepared = candidate;
+    if (units && units !== 'km' && prepared.distance !== undefined) {
+      prepared = { ...prepared, distance: fromKilometers(prepared.distance, units) };
+    }
+    if (scoreFunction) {
+      prepared = { ...prepared, score: scoreFunction(prepared.item, prepared.distance) };
+    }
+    return prepared;
+  }
+
+  private formatCandidate(candidate: Candidate<T>): ResultItem<T, HasDistance> {
+    if (candidate.bearing !== undefined) {
+      return {
+        ...candidate.item,
+        distance: candidate.distance,
+        bearing: candidate.bearing,
+      } as ResultItem<T, HasDistance>;
+    }
+    if (candidate.distance !== undefined) {
+      return { ...candidate.item, distance: candidate.distance } as ResultItem<T, HasDistance>;
+    }
+    return candidate.item as ResultItem<T, HasDistance>;
+  }
+
+  // Filtering, unit conversion, scoring, sorting and pagination - everything
+  // but shaping the output
+  private executePage(candidates: Array<Candidate<T>> = this.getFilteredCandidates()): {
+    page: Array<Candidate<T>>;
+    nextCursor?: string;
+  } {
+    const filtered = candidates.map((candidate) => this.prepareCandidate(candidate));
+
+    let nextCursor: string | undefined;
+    let results = filtered;
+
+    if (this.state.sortCriteria.length > 0) {
+      // Build each key once instead of on every comparison
+      const keyed = filtered.map((candidate) => ({ candidate, key: this.sortKey(candidate) }));
+      const descending = this.sortDirections();
+      keyed.sort((a, b) => compareSortKeys(a.key, b.key, descending));
+
+      let start = 0;
+      if (this.state.afterCursor !== undefined) {
+        const cursor = decodeCursor(this.state.afterCursor);
+        if (cursor.sort !== this.sortSignature()) {
+          throw new Error('Cursor was created for a different sort order.');
+        }
+        start = keyed.findIndex(({ key }) => compareSortKeys(key, cursor.key, descending) > 0);
+        if (start === -1) start = keyed.length;
+      }
+
+      // Offset/limit applied after sorting - pagination requires stable order
+      const pageStart = start + this.state.offsetCount;
+      const pageEnd =
+        this.state.limitCount !== undefined ? pageStart + this.state.limitCount : keyed.length;
+      const page = keyed.slice(pageStart, pageEnd);
+
+      const last = page[page.length - 1];
+      if (last && pageEnd < keyed.length) {
+        nextCursor = encodeCursor({ sort: this.sortSignature(), key: last.key });
+      }
+      results = page.map(({ candidate }) => candidate);
+    } else {
+      if (this.state.afterCursor !== undefined) {
+        throw new Error('after() requires sortBy() so pages have a stable order.');
+      }
+      if (this.state.offsetCount > 0) {
+        results = results.slice(this.state.offsetCount);
+      }
+      if (this.state.limitCount !== undefined) {
+        results = results.slice(0, this.state.limitCount);
+      }
+    }
 
-    return formattedResults as HasDistance extends true ? WithDistance<T>[] : T[];
+    return { page: results, nextCursor };
+  }
+
+  private executeInternal(candidates: Array<Candidate<T>> = this.getFilteredCandidates()): {
+    items: HasDistance extends true ? WithDistance<T>[] : T[];
+    nextCursor?: string;
+  } {
+    const { page, nextCursor } = this.executePage(candidates);
+    return {
+      items: page.map((candidate) => this.formatCandidate(candidate)) as HasDistance extends true
+        ? WithDistance<T>[]
+        : T[],
+      nextCursor,
+    };
+  }
+
+  // Same page execute() would return, as Point features. Distance, bearing
+  // and score go into each feature's properties.
+  toGeoJSON(): GeoJSONPointCollection<GeoJSONResultProperties<T>> {
+    const { page } = this.executePage();
+    return {
+      type: 'FeatureCollection',
+      features: page.map(({ item, distance, bearing, score }) =>
+        toPointFeature(item, this.spatialIndex.coordinates(item), { distance, bearing, score })
+      ),
+    };
   }
 
   execute(): HasDistance extends true ? WithDistance<T>[] : T[] {
@@ -206,15 +843,16 @@ export class QueryBuilder<T extends GeoPoint, HasDistance extends boolean = fals
       const cacheKey = this.getCacheKey();
       const cached = this.cache!.get(cacheKey);
       if (cached !== undefined) {
-        return cached as HasDistance extends true ? WithDistance<T>[] : T[];
+        return (cached as ReturnType<typeof this.executeInternal>).items;
       }
 
-      const results = this.executeInternal();
-      this.cache!.set(cacheKey, results);
-      return results;
+      const filtered = this.getFilteredCandidates();
+      const page = this.executeInternal(filtered);
+      this.cache!.set(cacheKey, page, this.cacheRegion(filtered));
+      return page.items;
     }
 
-    return this.executeInternal();
+    return this.executeInternal().items;
   }
 
   executeWithMetadata(): {
@@ -231,7 +869,7 @@ export class QueryBuilder<T extends GeoPoint, HasDistance extends boolean = fals
       if (cachedResult !== undefined) {
         cached = true;
         const queryTimeMs = performance.now() - startTime;
-        const items = cachedResult as HasDistance extends true ? WithDistance<T>[] : T[];
+        const { items, nextCursor } = cachedResult as ReturnType<typeof this.executeInternal>;
         return {
           items,
           metadata: {
@@ -239,40 +877,22 @@ export class QueryBuilder<T extends GeoPoint, HasDistance extends boolean = fals
             returnedCount: items.length,
             queryTimeMs,
             cached: true,
+            ...(nextCursor !== undefined && { nextCursor }),
           },
         };
       }
     }
 
     // Count total matches before limit/offset for pagination info
-    let totalCandidates: Array<{ item: T; distance?: number }>;
-
-    if (this.state.radiusFilter) {
-      totalCandidates = this.spatialIndex.searchRadius(
-        this.state.radiusFilter.center,
-        this.state.radiusFilter.radiusKm
-      );
-    } else if (this.state.boundsFilter) {
-      const items = this.spatialIndex.searchBounds(this.state.boundsFilter);
-      totalCandidates = items.map((item) => ({ item }));
-    } else {
-      const items = this.spatialIndex.all();
-      totalCandidates = items.map((item) => ({ item }));
-    }
-
-    let totalFiltered = totalCandidates;
-    for (const filter of this.state.attributeFilters) {
-      totalFiltered = totalFiltered.filter((candidate) =>
-        evaluateFilter(candidate.item, filter.field, filter.operator, filter.value)
-      );
-    }
+    const totalFiltered = this.getFilteredCandidates();
 
     const totalMatches = totalFiltered.length;
-    const items = this.executeInternal();
+    const page = this.executeInternal(totalFiltered);
+    const { items, nextCursor } = page;
 
     if (canCache) {
       const cacheKey = this.getCacheKey();
-      this.cache!.set(cacheKey, items);
+      this.cache!.set(cacheKey, page, this.cacheRegion(totalFiltered));
     }
 
     const queryTimeMs = performance.now() - startTime;
@@ -284,7 +904,240 @@ export class QueryBuilder<T extends GeoPoint, HasDistance extends boolean = fals
         returnedCount: items.length,
         queryTimeMs,
         cached,
+        ...(nextCursor !== undefined && { nextCursor }),
       },
     };
   }
+
+  // execute() one result at a time. Unsorted queries - and radius or nearest
+  // queries sorted by distance ascending alone - are lazy: radius matches come
+  // nearest first without a full sort, and the index walk stops when the
+  // consumer does. Any other sort, or a cursor, needs every match up front,
+  // so those stream execute()'s page. The cache isn't used either way.
+  stream(): QueryStream<ResultItem<T, HasDistance>> {
+    const results = () => this.streamResults();
+    return {
+      [Symbol.iterator]: results,
+      async *[Symbol.asyncIterator]() {
+        let count = 0;
+        for (const result of results()) {
+          yield result;
+          if (++count % STREAM_YIELD_EVERY === 0) {
+            await new Promise((resolve) => setTimeout(resolve, 0));
+          }
+        }
+      },
+    };
+  }
+
+  private canStreamLazily(): boolean {
+    const { sortCriteria, afterCursor, radiusFilter, nearestFilter } = this.state;
+    if (afterCursor !== undefined) {
+      return false;
+    }
+    if (sortCriteria.length === 0) {
+      return true;
+    }
+    const [first] = sortCriteria;
+    return (
+      sortCriteria.length === 1 &&
+      first!.field === 'distance' &&
+      first!.order === 'asc' &&
+      (radiusFilter !== undefined || nearestFilter !== undefined)
+    );
+  }
+
+  private *streamResults(): Generator<ResultItem<T, HasDistance>> {
+    if (!this.canStreamLazily()) {
+      for (const candidate of this.executePage().page) {
+        yield this.formatCandidate(candidate);
+      }
+      return;
+    }
+
+    const { offsetCount, limitCount } = this.state;
+    if (limitCount !== undefined && limitCount <= 0) {
+      return;
+    }
+    let skipped = 0;
+    let yielded = 0;
+    for (const candidate of this.streamCandidates()) {
+      if (skipped < offsetCount) {
+        skipped++;
+        continue;
+      }
+      yield this.formatCandidate(this.prepareCandidate(candidate));
+      if (++yielded === limitCount) {
+        return;
+      }
+    }
+  }
+
+  // Lazy counterpart of getFilteredCandidates. Every item gets the full
+  // matchesQuery check as it's reached, so nothing is filtered ahead of time.
+  private *streamCandidates(): Generator<Candidate<T>> {
+    const { nearestFilter, radiusFilter } = this.state;
+
+    if (nearestFilter) {
+      // Already bounded by k
+      yield* this.searchNearestCandidates(nearestFilter);
+      return;
+    }
+
+    if (radiusFilter) {
+      const { center, radiusKm, sector } = radiusFilter;
+      const nearestFirst = this.spatialIndex.iterateNearest(center, radiusKm, (item) =>
+        this.matchesQuery(item)
+      );
+      for (const { item, distance } of nearestFirst) {
+        yield sector
+          ? { item, distance, bearing: initialBearing(center, this.spatialIndex.coordinates(item)) }
+          : { item, distance };
+      }
+      return;
+    }
+
+    const items = this.getIndexedItems()?.items ?? this.scanSpatialItems();
+    for (const item of items) {
+      if (this.matchesQuery(item)) {
+        yield { item };
+      }
+    }
+  }
+
+  // The index lookup getSpatialCandidates would start from, minus the exact
+  // polygon/geohash/tile checks that matchesQuery repeats anyway. Walks the
+  // tree only as far as the caller pulls.
+  private *scanSpatialItems(): Generator<T> {
+    const { boundsFilter, polygonFilter, geohashFilter, tileFilter } = this.state;
+    if (boundsFilter) {
+      yield* this.spatialIndex.iterateBounds(boundsFilter);
+    } else if (polygonFilter) {
+      yield* this.spatialIndex.iterateBounds(polygonFilter.bounds);
+    } else if (geohashFilter) {
+      const seen = new Set<T>();
+      for (const cell of geohashFilter.cells) {
+        for (const item of this.spatialIndex.iterateBounds(cell)) {
+          if (seen.has(item)) continue;
+          seen.add(item);
+          yield item;
+        }
+      }
+    } else if (tileFilter) {
+      yield* this.spatialIndex.iterateBounds(tileFilter.bounds);
+    } else {
+      yield* this.spatialIndex.iterateBounds();
+    }
+  }
+
+  // Calls back with what changed in this query's results each time the
+  // GeoSearch it came from is mutated. Only mutations at points this query's
+  // spatial filters cover (or of items currently in the results) cause a
+  // re-run. Changes made in the same tick are delivered together, in a
+  // microtask. Call the returned function to unsubscribe.
+  subscribe(callback: (delta: LiveQueryDelta<ResultItem<T, HasDistance>>) => void): () => void {
+    if (!this.live) {
+      throw new Error('subscribe() needs a query created from a GeoSearch instance.');
+    }
+
+    const live = this.live;
+    let snapshot = this.liveSnapshot(live);
+    return live.register({
+      touches: (item) =>
+        snapshot.entries.has(live.keyOf(item)) ||
+        this.touchesPoint(this.spatialIndex.coordinates(item), snapshot.reachKm),
+      refresh: () => {
+        const next = this.liveSnapshot(live);
+        const delta = diffLiveEntries(snapshot.entries, next.entries);
+        snapshot = next;
+        if (delta.added.length > 0 || delta.removed.length > 0 || delta.updated.length > 0) {
+          callback(delta);
+        }
+      },
+    });
+  }
+
+  // The current page keyed by item (or id), plus the nearest() reach at the time
+  private liveSnapshot(live: LiveQueryRegistry<T>): {
+    entries: Map<unknown, LiveEntry<ResultItem<T, HasDistance>>>;
+    reachKm: number;
+  } {
+    const filtered = this.getFilteredCandidates();
+    const reachKm = this.nearestReachKm(filtered);
+
+    const entries = new Map<unknown, LiveEntry<ResultItem<T, HasDistance>>>();
+    for (const candidate of this.executePage(filtered).page) {
+      const { lat, lng } = this.spatialIndex.coordinates(candidate.item);
+      const { distance, bearing, score } = candidate;
+      entries.set(live.keyOf(candidate.item), {
+        result: this.formatCandidate(candidate),
+        lat,
+        lng,
+        distance,
+        bearing,
+        score,
+      });
+    }
+    return { entries, reachKm };
+  }
+
+  // How far from a nearest() center a change can still matter: the k-th
+  // distance once k items are found. Infinity for other queries.
+  private nearestReachKm(filtered: Array<Candidate<T>>): number {
+    const { nearestFilter } = this.state;
+    if (!nearestFilter) {
+      return Infinity;
+    }
+    return filtered.length >= nearestFilter.k
+      ? filtered.reduce((max, candidate) => Math.max(max, candidate.distance!), 0)
+      : (nearestFilter.maxDistanceKm ?? Infinity);
+  }
+
+  // Whether an item added or removed at `point` could change the results
+  private touchesPoint(point: GeoPoint, reachKm: number): boolean {
+    if (!this.matchesSpatialFilters(point)) {
+      return false;
+    }
+    const { nearestFilter } = this.state;
+    return !nearestFilter || this.spatialIndex.distance(nearestFilter.center, point) <= reachKm;
+  }
+
+  // For the cache: the area where a mutation could change this query's
+  // results, so anything outside it leaves the cached entry alone
+  private cacheRegion(filtered: Array<Candidate<T>>): CacheRegion {
+    const reachKm = this.nearestReachKm(filtered);
+    return {
+      contains: (point) => this.touchesPoint(point, reachKm),
+      boxes: this.regionBoxes(reachKm),
+    };
+  }
+
+  // Boxes around one of the spatial filters - any one of them covers where
+  // all of them overlap. Circles are padded for metrics other than haversine.
+  private regionBoxes(reachKm: number): BoundingBox[] | null {
+    const { nearestFilter, radiusFilter, boundsFilter, polygonFilter, geohashFilter, tileFilter } =
+      this.state;
+    const circle = (center: GeoPoint, radiusKm: number) =>
+      splitBounds(radiusToBoundingBox(center, radiusKm * (1 + METRIC_TOLERANCE)));
+
+    if (nearestFilter && Number.isFinite(reachKm)) {
+      return circle(nearestFilter.center, reachKm);
+    }
+    if (radiusFilter) {
+      return circle(radiusFilter.center, radiusFilter.radiusKm);
+    }
+    if (boundsFilter) {
+      return splitBounds(boundsFilter);
+    }
+    if (polygonFilter) {
+      return splitBounds(polygonFilter.bounds);
+    }
+    if (geohashFilter) {
+      return geohashFilter.cells.flatMap((cell) => splitBounds(cell));
+    }
+    if (tileFilter) {
+      return splitBounds(tileFilter.bounds);
+    }
+    return null;
+  }
 }
@@ -5,6 +5,29 @@ export interface GeoPoint {
 
 export type WithDistance<T> = T & { distance: number };
 
+// Results of near() queries with a sector also carry the bearing from the center
+export type WithBearing<T> = WithDistance<T> & { bearing: number };
+
+// Returns the distance between two points in km
+export type DistanceFunction = (point1: GeoPoint, point2: GeoPoint) => number;
+
+export type DistanceMetric = 'haversine' | 'vincenty' | 'equirectangular' | DistanceFunction;
+
+export type DistanceUnit = 'km' | 'mi' | 'm' | 'nmi';
+
+// Reads an item's position, for items that don't carry top-level lat/lng
+export type CoordinateAccessor<T> = (item: T) => GeoPoint;
+
+// Stable identity for items, read through the idField/getId option
+export type ItemId = string | number;
+
+// What add() and addMany() do with an item whose id is already indexed
+export type DuplicateIdPolicy = 'error' | 'replace';
+
+export type CoordinateOptions<T> =
+  | { getCoordinates: CoordinateAccessor<T>; latField?: undefined; lngField?: undefined }
+  | { getCoordinates?: undefined; latField: string; lngField: string };
+
 export type FilterOperator =
   | 'equals'
   | 'notEquals'
@@ -35,9 +58,26 @@ export interface FilterCondition<T> {
   value: unknown;
 }
 
+// Compass bearings in degrees clockwise from north. The sector runs clockwise
+// from fromBearing to toBearing, so { fromBearing: 350, toBearing: 10 } is a
+// 20 degree wedge around north.
+export interface BearingSector {
+  fromBearing: number;
+  toBearing: number;
+}
+
 export interface RadiusFilter {
   center: GeoPoint;
   radiusKm: number;
+  /** Inner radius - turns the circle into a ring (annulus). */
+  minRadiusKm?: number;
+  sector?: BearingSector;
+}
+
+export interface NearestFilter {
+  center: GeoPoint;
+  k: number;
+  maxDistanceKm?: number;
 }
 
 export interface BoundingBox {
@@ -47,20 +87,256 @@ export interface BoundingBox {
   maxLng: number;
 }
 
-export interface QueryState<T extends GeoPoint> {
+export interface GeoJSONPolygon {
+  type: 'Polygon';
+  coordinates: number[][][];
+}
+
+export interface GeoJSONMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: number[][][][];
+}
+
+export interface GeoJSONPoint {
+  type: 'Point';
+  coordinates: number[];
+}
+
+// Input features are typed loosely so collections typed with @types/geojson,
+// or parsed straight from JSON, can be passed in. Geometry is checked at runtime.
+export interface GeoJSONFeature<P = Record<string, unknown>> {
+  type: 'Feature';
+  geometry: { type: string; coordinates?: unknown } | null;
+  properties: P | null;
+  id?: string | number;
+}
+
+export interface GeoJSONFeatureCollection<P = Record<string, unknown>> {
+  type: 'FeatureCollection';
+  features: Array<GeoJSONFeature<P>>;
+}
+
+// Properties on exported features: the item without lat/lng, plus whatever
+// the query computed for it
+export type GeoJSONResultProperties<T> = Omit<T, 'lat' | 'lng'> & {
+  distance?: number;
+  bearing?: number;
+  score?: number;
+};
+
+export interface GeoJSONPointFeature<P> {
+  type: 'Feature';
+  geometry: GeoJSONPoint;
+  properties: P;
+}
+
+export interface GeoJSONPointCollection<P> {
+  type: 'FeatureCollection';
+  features: Array<GeoJSONPointFeature<P>>;
+}
+
+export interface InvalidGeoJSONFeature {
+  /** Position in the input collection's features array. */
+  index: number;
+  feature: unknown;
+  reason: string;
+}
+
+// A single ring, an outer ring followed by holes, or a GeoJSON geometry
+export type PolygonInput = GeoPoint[] | GeoPoint[][] | GeoJSONPolygon | GeoJSONMultiPolygon;
+
+export interface PolygonFilter {
+  polygons: GeoPoint[][][];
+  bounds: BoundingBox;
+}
+
+export interface DecodedGeohash extends GeoPoint {
+  /** Half the cell's height and width, in degrees. */
+  error: { lat: number; lng: number };
+}
+
+export interface GeohashNeighbors {
+  n: string | null;
+  ne: string | null;
+  e: string | null;
+  se: string | null;
+  s: string | null;
+  sw: string | null;
+  w: string | null;
+  nw: string | null;
+}
+
+export interface GeohashFilter {
+  hashes: string[];
+  cells: BoundingBox[];
+}
+
+// Slippy-map tile address (XYZ scheme, y counted from the north)
+export interface TileCoords {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export interface TileFilter extends TileCoords {
+  bufferPx: number;
+  bounds: BoundingBox;
+}
+
+export interface VectorTileOptions<T> {
+  /** Layer name in the tile (default: 'points'). */
+  layerName?: string;
+  /** Fields to copy onto each feature, or a function building the properties. */
+  properties?: Array<keyof T> | ((item: T) => Record<string, unknown>);
+  /** Tile-local coordinate range (default: 4096). */
+  extent?: number;
+}
+
+export interface ClusterOptions {
+  /** Cluster radius in pixels (default: 40). */
+  radius?: number;
+  /** Tile extent the radius is relative to (default: 512). */
+  extent?: number;
+  /** Lowest zoom level to build clusters for (default: 0). */
+  minZoom?: number;
+  /** Highest zoom level to cluster at; above it points are returned as-is (default: 16). */
+  maxZoom?: number;
+  /** Minimum points needed to form a cluster (default: 2). */
+  minPoints?: number;
+  /** KDBush node size for the per-zoom indexes (default: 64). */
+  nodeSize?: number;
+}
+
+export interface Cluster {
+  type: 'cluster';
+  id: number;
+  lat: number;
+  lng: number;
+  count: number;
+  /** Zoom level at which the cluster splits into multiple children. */
+  expansionZoom: number;
+}
+
+export interface ClusterPoint<T> {
+  type: 'point';
+  item: T;
+}
+
+export type ClusterResult<T> = Cluster | ClusterPoint<T>;
+
+export interface HistogramSpec<T> {
+  field: keyof T;
+  /** Bucket width - each bucket covers [key, key + interval). */
+  interval: number;
+}
+
+export interface AggregationSpec<T> {
+  /** Count distinct values. Array fields count each element once per item. */
+  terms?: keyof T | Array<keyof T>;
+  /** Bucket numeric values into fixed-width ranges. */
+  histogram?: HistogramSpec<T> | Array<HistogramSpec<T>>;
+  /** Min, max, sum and average of numeric fields. */
+  stats?: keyof T | Array<keyof T>;
+  /**
+   * Fields whose facets ignore their own where() filters, so selecting one
+   * value still shows counts for the alternatives.
+   */
+  disjunctive?: Array<keyof T>;
+}
+
+export interface TermBucket {
+  value: unknown;
+  count: number;
+}
+
+export interface HistogramBucket {
+  key: number;
+  count: number;
+}
+
+export interface FieldStats {
+  count: number;
+  min: number | null;
+  max: number | null;
+  sum: number;
+  avg: number | null;
+}
+
+export interface AggregationResult {
+  /** Items matching every filter. */
+  total: number;
+  terms: Record<string, TermBucket[]>;
+  histograms: Record<string, HistogramBucket[]>;
+  stats: Record<string, FieldStats>;
+}
+
+export interface DensityOptions<T> {
+  /** Area to grid. Points outside it are ignored. */
+  bounds: BoundingBox;
+  /** Square-ish cells of this size. Mutually exclusive with geohashPrecision. */
+  cellSizeKm?: number;
+  /** Use geohash cells of this length (1-12) instead of a km grid. */
+  geohashPrecision?: number;
+  /** Numeric field to sum per cell instead of counting items. */
+  weightField?: keyof T;
+}
+
+export interface DensityCell {
+  /** "row:col" for km grids, the geohash for geohash grids. */
+  key: string;
+  bounds: BoundingBox;
+  count: number;
+  /** Weighted sum if weightField is set, otherwise the count. */
+  value: number;
+}
+
+export interface DensityResult {
+  /** Only cells containing at least one point. */
+  cells: DensityCell[];
+  maxValue: number;
+  total: number;
+}
+
+export interface JoinOptions {
+  /** Maximum distance between paired items, in km. */
+  radiusKm: number;
+  /** Keep at most this many closest right items per left item. */
+  k?: number;
+  /** Pair each left item with its single closest right item (same as k: 1). */
+  nearestOnly?: boolean;
+}
+
+export interface JoinPair<L, R> {
+  left: L;
+  right: R;
+  distance: number;
+}
+
+export interface QueryState<T> {
   radiusFilter?: RadiusFilter;
+  nearestFilter?: NearestFilter;
   boundsFilter?: BoundingBox;
+  polygonFilter?: PolygonFilter;
+  geohashFilter?: GeohashFilter;
+  tileFilter?: TileFilter;
   attributeFilters: FilterCondition<T>[];
   sortCriteria: SortCriteria<T & { distance?: number }>[];
   scoreFunction?: (item: T, distance?: number) => number;
+  // Units for radius input and distance output. Filters are stored in km.
+  units?: DistanceUnit;
+  clusterOptions?: ClusterOptions;
   limitCount?: number;
   offsetCount: number;
+  // Opaque keyset cursor from a previous page's metadata
+  afterCursor?: string;
 }
 
 export interface QueryMetadata {
   totalMatches: number;
   returnedCount: number;
   queryTimeMs: number;
+  /** Pass to after() for the next page. Only set for sorted, limited queries with more rows. */
+  nextCursor?: string;
 }
 
 export interface QueryResult<T> {
@@ -68,23 +344,255 @@ export interface QueryResult<T> {
   metadata: QueryMetadata;
 }
 
-export interface IndexedItem<T extends GeoPoint> {
+export interface IndexedItem<T> {
   minX: number;
   minY: number;
   maxX: number;
   maxY: number;
   item: T;
+  // Insertion order - the last tie-breaker for cursor pagination
+  seq: number;
 }
 
-export interface GeoSearchOptions {
-  /** Use static mode (KDBush) for read-only datasets. Faster but no add/remove. */
-  static?: boolean;
+export interface GeoSearchOptions<T = GeoPoint> {
+  /**
+   * Use static mode (KDBush) for read-only datasets. Faster but no add/remove.
+   * 'hybrid' keeps a static base and buffers edits until the next rebuild.
+   */
+  static?: boolean | 'hybrid';
+  /**
+   * Hybrid mode: rebuild the static base once the changes since the last
+   * rebuild exceed this fraction of it, and at least 64 (default: 0.1).
+   */
+  compactThreshold?: number;
   /** Enable LRU query caching. */
   cache?: boolean;
   /** Max cached queries (default: 100). */
   cacheSize?: number;
+  /** Max estimated bytes of cached results (default: no limit). */
+  cacheMaxBytes?: number;
+  /** Cached results older than this are treated as misses (default: no expiry). */
+  cacheTtlMs?: number;
+  /**
+   * Where cached results are kept. Pass one LRUCacheStore to several
+   * instances to share a memory budget; cacheSize and cacheMaxBytes then
+   * don't apply. Enables caching on its own.
+   */
+  cacheStore?: CacheStore;
+  /**
+   * Distance metric for radius filtering, nearest-neighbor search and the
+   * `distance` field on results (default: 'haversine'). Custom functions must
+   * return km and stay within 1% of haversine for index pruning to be exact.
+   */
+  distance?: DistanceMetric;
+  /** Units for radius input, the `distance` field and scoring (default: 'km'). */
+  units?: DistanceUnit;
+  /** Options for cluster() and getClusterLeaves(). */
+  cluster?: ClusterOptions;
+  /** Reads each item's position. Needed when items don't have lat/lng fields. */
+  getCoordinates?: CoordinateAccessor<T>;
+  /** Dot path to each item's latitude, e.g. 'address.geo.lat'. Set with lngField. */
+  latField?: string;
+  /** Dot path to each item's longitude. Array indices work: 'location.coordinates.0'. */
+  lngField?: string;
+  /**
+   * Dot path to each item's unique id, e.g. 'id'. Enables get(), has(),
+   * removeById(), upsert() and move(), and makes remove() match by id.
+   */
+  idField?: string;
+  /** Reads each item's unique id. Alternative to idField. */
+  getId?: (item: T) => ItemId;
+  /**
+   * What add() and addMany() do when an item's id is already indexed:
+   * 'error' throws and changes nothing, 'replace' swaps the old item out
+   * (default: 'error'). Also applies to duplicates within the initial items.
+   */
+  duplicateIds?: DuplicateIdPolicy;
+}
+
+// GeoJSON items always get lat/lng from the geometry, so no accessors here
+export interface FromGeoJSONOptions
+  extends Omit<GeoSearchOptions, 'getCoordinates' | 'latField' | 'lngField' | 'getId'> {
+  /**
+   * Called for each feature that isn't a valid Point, which is then skipped.
+   * Without it, fromGeoJSON() throws if any feature is invalid.
+   */
+  onInvalidFeature?: (issue: InvalidGeoJSONFeature) => void;
 }
 
 export interface QueryMetadataWithCache extends QueryMetadata {
   cached: boolean;
 }
+
+export interface CacheStats {
+  /** Lookups answered from the cache. */
+  hits: number;
+  /** Lookups that ran the query. */
+  misses: number;
+  /** hits / (hits + misses), or 0 before the first lookup. */
+  hitRate: number;
+  /** Entries dropped because an add, remove or move fell inside their region. */
+  invalidations: number;
+  /**
+   * Entries dropped to stay within cacheSize or cacheMaxBytes, or because
+   * they outlived cacheTtlMs. Only this instance's, even in a shared store.
+   */
+  evictions: number;
+  /** Estimated size of this instance's cached results. */
+  bytes: number;
+  /** Entries currently cached. */
+  size: number;
+}
+
+/** One cached query result, as a CacheStore sees it */
+export interface CacheEntry {
+  /** The result itself - opaque to stores. */
+  value: unknown;
+  /** Estimated size of the result in bytes. */
+  bytes: number;
+  /** Date.now() from which the entry is stale. Infinity when there is no TTL. */
+  expiresAt: number;
+}
+
+/**
+ * Storage for cached query results. Keys are unique per GeoSearch instance,
+ * so one store can serve several. Calls are synchronous, as execute() is.
+ */
+export interface CacheStore {
+  /** Looks an entry up and counts it as recently used. */
+  get(key: string): CacheEntry | undefined;
+  /** Stores an entry, evicting others if the store is over its limits. */
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): boolean;
+  /** Every entry, without counting any as used. */
+  entries(): Iterable<[string, CacheEntry]>;
+  /** Entries evicted to stay within the store's limits so far. */
+  readonly evictions: number;
+}
+
+/**
+ * How a secondary attribute index is organized. 'hash' answers equals and in;
+ * 'sorted' also answers range operators on numbers and strings.
+ */
+export type AttributeIndexType = 'hash' | 'sorted';
+
+export interface AttributeIndexOptions {
+  /** Index structure (default: 'hash'). */
+  type?: AttributeIndexType;
+}
+
+export interface LRUCacheStoreOptions {
+  /** Max entries across every instance using the store (default: 100). */
+  maxEntries?: number;
+  /** Max estimated bytes across every instance using the store (default: no limit). */
+  maxBytes?: number;
+}
+
+/**
+ * What stream() returns. for...of pulls results synchronously; for await...of
+ * also hands the event loop a turn every so often on long streams.
+ */
+export interface QueryStream<R> extends Iterable<R>, AsyncIterable<R> {}
+
+interface WorkerEndpointBase {
+  postMessage(message: unknown, transfer?: ArrayBuffer[]): void;
+  terminate?(): unknown;
+  close?(): void;
+}
+
+/** Node worker_threads Worker, parentPort or MessagePort */
+export interface NodeWorkerEndpoint extends WorkerEndpointBase {
+  on(event: 'message', listener: (message: unknown) => void): unknown;
+  /** An uncaught exception in a Worker, or a message that couldn't be deserialized */
+  on(event: 'error' | 'messageerror', listener: (error: Error) => void): unknown;
+  /** A Worker stopped - after an uncaught exception, process.exit() or terminate() */
+  on(event: 'exit', listener: (exitCode: number) => void): unknown;
+}
+
+/** Browser Worker, or `self` inside one - the message arrives as `event.data` */
+export interface BrowserWorkerEndpoint extends WorkerEndpointBase {
+  addEventListener(type: 'message', listener: (event: { data: unknown }) => void): void;
+  /** An uncaught exception in the worker, or a message that couldn't be deserialized */
+  addEventListener(
+    type: 'error' | 'messageerror',
+    listener: (event: { message?: string }) => void
+  ): void;
+}
+
+/** Either end of a worker connection */
+export type WorkerEndpoint = NodeWorkerEndpoint | BrowserWorkerEndpoint;
+
+export interface RemoteExecuteOptions {
+  /** Cancels the query when aborted */
+  signal?: AbortSignal;
+  /**
+   * Queries sharing a channel supersede each other: starting one cancels the
+   * previous query on that channel if it's still in flight.
+   */
+  channel?: string;
+}
+
+/** What a RemoteQuery resolves to - executeWithMetadata()'s result, cloned across */
+export interface RemoteQueryResult<T, HasDistance extends boolean = false> {
+  items: HasDistance extends true ? WithDistance<T>[] : T[];
+  metadata: QueryMetadataWithCache;
+}
+
+/**
+ * What a subscribe() callback receives. Results are compared by item
+ * identity: `updated` holds items still in the results whose coordinates,
+ * distance, bearing or score changed; `removed` holds their last results.
+ */
+export interface LiveQueryDelta<R> {
+  added: R[];
+  removed: R[];
+  updated: R[];
+}
+
+interface GeoFenceBase<M> {
+  id: string;
+  metadata?: M;
+  /** Overrides GeoFenceSetOptions.dwellMs for this fence. */
+  dwellMs?: number;
+}
+
+export interface CircleFence<M = Record<string, unknown>> extends GeoFenceBase<M> {
+  type: 'circle';
+  center: GeoPoint;
+  radiusKm: number;
+}
+
+export interface PolygonFence<M = Record<string, unknown>> extends GeoFenceBase<M> {
+  type: 'polygon';
+  polygon: PolygonInput;
+}
+
+export type GeoFence<M = Record<string, unknown>> = CircleFence<M> | PolygonFence<M>;
+
+/** A tracked object's position report. Timestamps are ms, e.g. Date.now(). */
+export interface PositionUpdate extends GeoPoint {
+  id: string;
+  timestamp: number;
+}
+
+export type GeoFenceEventType = 'enter' | 'exit' | 'dwell';
+
+export interface GeoFenceEvent<M = Record<string, unknown>> {
+  type: GeoFenceEventType;
+  objectId: string;
+  fence: GeoFence<M>;
+  /** The update that triggered the event */
+  position: PositionUpdate;
+  /** Time inside the fence so far - set on dwell and exit events */
+  dwellMs?: number;
+}
+
+export interface GeoFenceSetOptions {
+  /**
+   * Fire a dwell event once an object has stayed inside a fence this long
+   * (ms, by update timestamps). No dwell events when unset.
+   */
+  dwellMs?: number;
+  /** Distance metric for circular fences (default: 'haversine'). */
+  distance?: DistanceMetric;
+}
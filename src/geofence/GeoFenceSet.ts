@@ -0,0 +1,230 @@
+import RBush from 'rbush';
+import type {
+  GeoPoint,
+  BoundingBox,
+  DistanceFunction,
+  GeoFence,
+  GeoFenceEvent,
+  GeoFenceEventType,
+  GeoFenceSetOptions,
+  PositionUpdate,
+} from '../core/types.js';
+import { radiusToBoundingBox, splitBounds } from '../spatial/bounds.js';
+import { haversineDistance, resolveDistanceMetric, METRIC_TOLERANCE } from '../spatial/distance.js';
+import { normalizePolygon, polygonBounds, isPointInPolygon } from '../spatial/polygon.js';
+
+// A fence's bounding box in the tree. Fences crossing the antimeridian get
+// one box per side, like SpatialIndex's split lookups.
+interface FenceBox<M> {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  entry: FenceEntry<M>;
+}
+
+interface FenceEntry<M> {
+  fence: GeoFence<M>;
+  contains: (point: GeoPoint) => boolean;
+  boxes: Array<FenceBox<M>>;
+}
+
+// One object inside one fence
+interface Visit {
+  enteredAt: number;
+  dwelled: boolean;
+}
+
+interface TrackedObject {
+  timestamp: number;
+  visits: Map<string, Visit>;
+}
+
+type Listener<M> = (event: GeoFenceEvent<M>) => void;
+
+// Tracks moving objects against a set of circular and polygon fences. Fence
+// bounding boxes live in an RBush tree - the same index SpatialIndex uses -
+// so an update only runs exact containment tests on fences whose box holds
+// the point. Events are driven by update timestamps, not timers: dwell fires
+// on the first update at least dwellMs after entering.
+export class GeoFenceSet<M = Record<string, unknown>> {
+  private readonly tree = new RBush<FenceBox<M>>();
+  private readonly fences = new Map<string, FenceEntry<M>>();
+  private readonly objects = new Map<string, TrackedObject>();
+  private readonly listeners = new Map<GeoFenceEventType, Set<Listener<M>>>();
+  private readonly dwellMs: number | undefined;
+  private readonly distanceFn: DistanceFunction;
+  // Circle boxes are spherical - other metrics get a safety margin
+  private readonly tolerance: number;
+
+  constructor(fences: Array<GeoFence<M>> = [], options: GeoFenceSetOptions = {}) {
+    this.dwellMs = options.dwellMs;
+    this.distanceFn = resolveDistanceMetric(options.distance);
+    this.tolerance = this.distanceFn === haversineDistance ? 0 : METRIC_TOLERANCE;
+    this.addMany(fences);
+  }
+
+  private createEntry(fence: GeoFence<M>): FenceEntry<M> {
+    let bounds: BoundingBox;
+    let contains: (point: GeoPoint) => boolean;
+
+    if (fence.type === 'circle') {
+      const { center, radiusKm } = fence;
+      if (!(radiusKm > 0)) {
+        throw new Error(`Fence '${fence.id}' needs a positive radiusKm.`);
+      }
+      bounds = radiusToBoundingBox(center, radiusKm * (1 + this.tolerance));
+      contains = (point) => this.distanceFn(center, point) <= radiusKm;
+    } else if (fence.type === 'polygon') {
+      const polygons = normalizePolygon(fence.polygon);
+      bounds = polygonBounds(polygons);
+      contains = (point) => isPointInPolygon(point, polygons);
+    } else {
+      throw new Error(`Fence '${(fence as GeoFence<M>).id}' has an unknown type.`);
+    }
+
+    const entry: FenceEntry<M> = { fence, contains, boxes: [] };
+    entry.boxes = splitBounds(bounds).map((box) => ({
+      minX: box.minLng,
+      minY: box.minLat,
+      maxX: box.maxLng,
+      maxY: box.maxLat,
+      entry,
+    }));
+    return entry;
+  }
+
+  add(fence: GeoFence<M>): this {
+    if (this.fences.has(fence.id)) {
+      throw new Error(`Fence '${fence.id}' already exists.`);
+    }
+    const entry = this.createEntry(fence);
+    this.fences.set(fence.id, entry);
+    for (const box of entry.boxes) {
+      this.tree.insert(box);
+    }
+    return this;
+  }
+
+  addMany(fences: Array<GeoFence<M>>): this {
+    for (const fence of fences) {
+      this.add(fence);
+    }
+    return this;
+  }
+
+  // Objects inside the fence are forgotten there without exit events
+  remove(fenceId: string): boolean {
+    const entry = this.fences.get(fenceId);
+    if (!entry) {
+      return false;
+    }
+    for (const box of entry.boxes) {
+      this.tree.remove(box);
+    }
+    this.fences.delete(fenceId);
+    for (const object of this.objects.values()) {
+      object.visits.delete(fenceId);
+    }
+    return true;
+  }
+
+  get(fenceId: string): GeoFence<M> | undefined {
+    return this.fences.get(fenceId)?.fence;
+  }
+
+  get size(): number {
+    return this.fences.size;
+  }
+
+  // Fences containing a point, in no particular order
+  fencesAt(point: GeoPoint): Array<GeoFence<M>> {
+    return this.entriesAt(point).map((entry) => entry.fence);
+  }
+
+  // Ids of the fences an object was inside as of its last update
+  fencesOf(objectId: string): string[] {
+    return [...(this.objects.get(objectId)?.visits.keys() ?? [])];
+  }
+
+  private entriesAt(point: GeoPoint): Array<FenceEntry<M>> {
+    const boxes = this.tree.search({
+      minX: point.lng,
+      minY: point.lat,
+      maxX: point.lng,
+      maxY: point.lat,
+    });
+    // Both halves of a split fence meet at ±180
+    const entries = new Set(boxes.map((box) => box.entry));
+    return [...entries].filter((entry) => entry.contains(point));
+  }
+
+  // Processes one position report and returns the events it caused, which
+  // also go to on() listeners: exits first, then enters, then dwells. Reports
+  // older than the object's last one are ignored.
+  update(position: PositionUpdate): Array<GeoFenceEvent<M>> {
+    const { id: objectId, timestamp } = position;
+    let object = this.objects.get(objectId);
+    if (object && timestamp < object.timestamp) {
+      return [];
+    }
+    if (!object) {
+      object = { timestamp, visits: new Map() };
+      this.objects.set(objectId, object);
+    }
+    object.timestamp = timestamp;
+
+    const inside = new Map(this.entriesAt(position).map((entry) => [entry.fence.id, entry]));
+    const events: Array<GeoFenceEvent<M>> = [];
+
+    for (const [fenceId, visit] of object.visits) {
+      if (inside.has(fenceId)) continue;
+      object.visits.delete(fenceId);
+      const fence = this.fences.get(fenceId)!.fence;
+      events.push({
+        type: 'exit',
+        objectId,
+        fence,
+        position,
+        dwellMs: timestamp - visit.enteredAt,
+      });
+    }
+
+    for (const [fenceId, { fence }] of inside) {
+      if (object.visits.has(fenceId)) continue;
+      object.visits.set(fenceId, { enteredAt: timestamp, dwelled: false });
+      events.push({ type: 'enter', objectId, fence, position });
+    }
+
+    for (const [fenceId, visit] of object.visits) {
+      const fence = inside.get(fenceId)!.fence;
+      const dwellMs = fence.dwellMs ?? this.dwellMs;
+      const elapsed = timestamp - visit.enteredAt;
+      if (visit.dwelled || dwellMs === undefined || elapsed < dwellMs) continue;
+      visit.dwelled = true;
+      events.push({ type: 'dwell', objectId, fence, position, dwellMs: elapsed });
+    }
+
+    for (const event of events) {
+      this.listeners.get(event.type)?.forEach((listener) => listener(event));
+    }
+    return events;
+  }
+
+  // Drops an object's state without exit events, e.g. when it goes offline
+  forget(objectId: string): boolean {
+    return this.objects.delete(objectId);
+  }
+
+  on(type: GeoFenceEventType, listener: (event: GeoFenceEvent<M>) => void): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+}
@@ -0,0 +1 @@
+export { GeoFenceSet } from './GeoFenceSet.js';
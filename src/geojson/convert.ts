@@ -0,0 +1,89 @@
+import type {
+  GeoPoint,
+  GeoJSONFeatureCollection,
+  GeoJSONPointFeature,
+  GeoJSONResultProperties,
+  InvalidGeoJSONFeature,
+} from '../core/types.js';
+
+// Checks one feature, returning the reason it can't become an item or null
+// if it can. GeoJSON positions are [lng, lat, (altitude)].
+function invalidReason(feature: unknown): string | null {
+  if (typeof feature !== 'object' || feature === null) {
+    return 'not an object';
+  }
+  const { type, geometry } = feature as { type?: unknown; geometry?: unknown };
+  if (type !== 'Feature') {
+    return `expected type 'Feature', got '${String(type)}'`;
+  }
+  if (typeof geometry !== 'object' || geometry === null) {
+    return 'missing geometry';
+  }
+
+  const { type: geometryType, coordinates } = geometry as { type?: unknown; coordinates?: unknown };
+  if (geometryType !== 'Point') {
+    return `unsupported geometry type '${String(geometryType)}' (only Point)`;
+  }
+  if (!Array.isArray(coordinates) || coordinates.length < 2) {
+    return 'Point coordinates must be [lng, lat]';
+  }
+  const [lng, lat] = coordinates as unknown[];
+  if (typeof lng !== 'number' || typeof lat !== 'number' || !isFinite(lng) || !isFinite(lat)) {
+    return 'Point coordinates must be finite numbers';
+  }
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+    return `coordinates [${lng}, ${lat}] are out of range`;
+  }
+  return null;
+}
+
+// Flattens Point features into items: the feature's properties with lat/lng
+// taken from the geometry. Everything else is reported, never dropped quietly.
+export function parseFeatureCollection<P extends object>(
+  collection: GeoJSONFeatureCollection<P>
+): { items: Array<P & GeoPoint>; invalid: InvalidGeoJSONFeature[] } {
+  const { type, features } = (collection ?? {}) as Partial<GeoJSONFeatureCollection<P>>;
+  if (type !== 'FeatureCollection' || !Array.isArray(features)) {
+    throw new Error('fromGeoJSON() expects a GeoJSON FeatureCollection.');
+  }
+
+  const items: Array<P & GeoPoint> = [];
+  const invalid: InvalidGeoJSONFeature[] = [];
+
+  features.forEach((feature, index) => {
+    const reason = invalidReason(feature);
+    if (reason !== null) {
+      invalid.push({ index, feature, reason });
+      return;
+    }
+    const [lng, lat] = feature.geometry!.coordinates as [number, number];
+    items.push({ ...(feature.properties ?? ({} as P)), lat, lng });
+  });
+
+  return { items, invalid };
+}
+
+// Inverse of parseFeatureCollection for a single item, with whatever the
+// query computed for it merged into the properties. When the item is its own
+// point (no custom accessor) lat/lng move into the geometry; otherwise the
+// item's fields are left as they are.
+export function toPointFeature<T extends object>(
+  item: T,
+  point: GeoPoint,
+  computed: { distance?: number; bearing?: number; score?: number }
+): GeoJSONPointFeature<GeoJSONResultProperties<T>> {
+  const properties = { ...item } as Record<string, unknown>;
+  if ((point as unknown) === item) {
+    delete properties.lat;
+    delete properties.lng;
+  }
+  for (const [key, value] of Object.entries(computed)) {
+    if (value !== undefined) properties[key] = value;
+  }
+
+  return {
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [point.lng, point.lat] },
+    properties: properties as GeoJSONResultProperties<T>,
+  };
+}
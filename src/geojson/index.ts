@@ -0,0 +1 @@
+export { parseFeatureCollection, toPointFeature } from './convert.js';
@@ -1,28 +1,118 @@
 export { GeoSearch } from './core/GeoSearch.js';
 export { QueryBuilder } from './core/QueryBuilder.js';
+export { PointClusterer } from './cluster/index.js';
+export { Aggregator, DensityGrid } from './aggregations/index.js';
+export { GeoSearchWorker, GeoSearchClient, RemoteQuery } from './worker/index.js';
+export { GeoFenceSet } from './geofence/index.js';
+export { LRUCacheStore } from './cache/index.js';
 
 export type {
   GeoPoint,
   WithDistance,
+  WithBearing,
+  DistanceFunction,
+  DistanceMetric,
+  DistanceUnit,
+  CoordinateAccessor,
+  CoordinateOptions,
+  ItemId,
+  DuplicateIdPolicy,
   FilterOperator,
   SortOrder,
   SortCriteria,
   FilterCondition,
   RadiusFilter,
+  BearingSector,
+  NearestFilter,
   BoundingBox,
+  GeoJSONPolygon,
+  GeoJSONMultiPolygon,
+  PolygonInput,
+  PolygonFilter,
+  GeohashFilter,
+  DecodedGeohash,
+  GeohashNeighbors,
+  TileCoords,
+  GeoJSONPoint,
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  GeoJSONPointFeature,
+  GeoJSONPointCollection,
+  GeoJSONResultProperties,
+  InvalidGeoJSONFeature,
+  FromGeoJSONOptions,
+  TileFilter,
+  VectorTileOptions,
+  ClusterOptions,
+  Cluster,
+  ClusterPoint,
+  ClusterResult,
+  AggregationSpec,
+  AggregationResult,
+  HistogramSpec,
+  TermBucket,
+  HistogramBucket,
+  FieldStats,
+  DensityOptions,
+  DensityCell,
+  DensityResult,
+  JoinOptions,
+  JoinPair,
   QueryState,
   QueryMetadata,
   QueryMetadataWithCache,
+  CacheStats,
+  CacheEntry,
+  CacheStore,
+  LRUCacheStoreOptions,
+  AttributeIndexType,
+  AttributeIndexOptions,
   QueryResult,
+  QueryStream,
+  LiveQueryDelta,
+  GeoFence,
+  CircleFence,
+  PolygonFence,
+  PositionUpdate,
+  GeoFenceEvent,
+  GeoFenceEventType,
+  GeoFenceSetOptions,
   GeoSearchOptions,
+  WorkerEndpoint,
+  NodeWorkerEndpoint,
+  BrowserWorkerEndpoint,
+  RemoteExecuteOptions,
+  RemoteQueryResult,
 } from './core/types.js';
 
-export { haversineDistance } from './spatial/distance.js';
+export {
+  haversineDistance,
+  vincentyDistance,
+  equirectangularDistance,
+  resolveDistanceMetric,
+  distanceToBounds,
+  toKilometers,
+  fromKilometers,
+  convertDistance,
+  initialBearing,
+  isBearingInSector,
+} from './spatial/distance.js';
 export {
   radiusToBoundingBox,
   isPointInBounds,
+  splitBounds,
+  normalizeLongitude,
   kmToLatDegrees,
   kmToLngDegrees,
 } from './spatial/bounds.js';
+export { normalizePolygon, polygonBounds, isPointInPolygon } from './spatial/polygon.js';
+export {
+  encodeGeohash,
+  decodeGeohash,
+  geohashBounds,
+  geohashNeighbors,
+} from './spatial/geohash.js';
+export { tileToBounds, projectToTile, TILE_SIZE } from './spatial/tiles.js';
+export { fieldPathAccessor, resolveCoordinateAccessor } from './spatial/coordinates.js';
 
 export { filterOperators, evaluateFilter } from './filters/index.js';
@@ -0,0 +1,76 @@
+import type { AttributeIndexType, FilterCondition, FilterOperator } from '../core/types.js';
+import { HashIndex } from './HashIndex.js';
+import { SortedIndex } from './SortedIndex.js';
+
+export interface AttributeIndex<T> {
+  load(items: T[]): void;
+  add(item: T): void;
+  // Finds the item by its field's current value, so an indexed field has to
+  // be changed between a remove() and an add()
+  remove(item: T): void;
+  // How many items match the filter, or null when this index can't answer it
+  count(operator: FilterOperator, value: unknown): number | null;
+  lookup(operator: FilterOperator, value: unknown): T[];
+}
+
+// The secondary indexes of one GeoSearch, at most one per field. GeoSearch
+// keeps them in step with the spatial index; QueryBuilder asks them for the
+// where() filter that narrows a query down the most.
+export class AttributeIndexes<T> {
+  private readonly indexes = new Map<keyof T, AttributeIndex<T>>();
+
+  create(field: keyof T, type: AttributeIndexType, items: T[]): void {
+    let index: AttributeIndex<T>;
+    if (type === 'hash') {
+      index = new HashIndex(field);
+    } else if (type === 'sorted') {
+      index = new SortedIndex(field);
+    } else {
+      throw new Error(`Unknown index type '${String(type)}'. Use 'hash' or 'sorted'.`);
+    }
+    index.load(items);
+    this.indexes.set(field, index);
+  }
+
+  drop(field: keyof T): boolean {
+    return this.indexes.delete(field);
+  }
+
+  get size(): number {
+    return this.indexes.size;
+  }
+
+  add(items: T[]): void {
+    for (const index of this.indexes.values()) {
+      items.forEach((item) => index.add(item));
+    }
+  }
+
+  remove(items: T[]): void {
+    for (const index of this.indexes.values()) {
+      items.forEach((item) => index.remove(item));
+    }
+  }
+
+  clear(): void {
+    for (const index of this.indexes.values()) {
+      index.load([]);
+    }
+  }
+
+  // The filter with the fewest matches among those an index can answer
+  plan(filters: Array<FilterCondition<T>>): { filter: FilterCondition<T>; count: number } | null {
+    let best: { filter: FilterCondition<T>; count: number } | null = null;
+    for (const filter of filters) {
+      const count = this.indexes.get(filter.field)?.count(filter.operator, filter.value) ?? null;
+      if (count !== null && (!best || count < best.count)) {
+        best = { filter, count };
+      }
+    }
+    return best;
+  }
+
+  lookup(filter: FilterCondition<T>): T[] {
+    return this.indexes.get(filter.field)?.lookup(filter.operator, filter.value) ?? [];
+  }
+}
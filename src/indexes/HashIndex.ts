@@ -0,0 +1,68 @@
+import type { FilterOperator } from '../core/types.js';
+import type { AttributeIndex } from './AttributeIndexes.js';
+
+// Items grouped by the value of one field. Map keys compare the way
+// Array.includes() does, which is what `in` uses; equals (===) differs only
+// in never matching NaN.
+export class HashIndex<T> implements AttributeIndex<T> {
+  private readonly buckets = new Map<unknown, Set<T>>();
+  private readonly field: keyof T;
+
+  constructor(field: keyof T) {
+    this.field = field;
+  }
+
+  load(items: T[]): void {
+    this.buckets.clear();
+    for (const item of items) {
+      this.add(item);
+    }
+  }
+
+  add(item: T): void {
+    const value = item[this.field];
+    let bucket = this.buckets.get(value);
+    if (!bucket) {
+      bucket = new Set();
+      this.buckets.set(value, bucket);
+    }
+    bucket.add(item);
+  }
+
+  remove(item: T): void {
+    const value = item[this.field];
+    const bucket = this.buckets.get(value);
+    if (bucket?.delete(item) && bucket.size === 0) {
+      this.buckets.delete(value);
+    }
+  }
+
+  // Bucket keys a filter matches, or null for operators a hash can't answer
+  private keysFor(operator: FilterOperator, value: unknown): unknown[] | null {
+    if (operator === 'equals') {
+      return Number.isNaN(value) ? [] : [value];
+    }
+    if (operator === 'in') {
+      return Array.isArray(value) ? [...new Set<unknown>(value)] : [];
+    }
+    return null;
+  }
+
+  count(operator: FilterOperator, value: unknown): number | null {
+    const keys = this.keysFor(operator, value);
+    if (!keys) {
+      return null;
+    }
+    return keys.reduce<number>((total, key) => total + (this.buckets.get(key)?.size ?? 0), 0);
+  }
+
+  lookup(operator: FilterOperator, value: unknown): T[] {
+    const items: T[] = [];
+    for (const key of this.keysFor(operator, value) ?? []) {
+      for (const item of this.buckets.get(key) ?? []) {
+        items.push(item);
+      }
+    }
+    return items;
+  }
+}
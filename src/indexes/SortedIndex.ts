@@ -0,0 +1,167 @@
+import type { FilterOperator } from '../core/types.js';
+import type { AttributeIndex } from './AttributeIndexes.js';
+
+interface Entry<T> {
+  value: number | string;
+  item: T;
+}
+
+// [entries, start, end) - a run of one sorted array
+type Run<T> = [entries: Array<Entry<T>>, start: number, end: number];
+
+// Values the comparison operators can match. NaN compares false with
+// everything, so it's left out along with non-primitive values.
+function isOrdered(value: unknown): value is number | string {
+  return typeof value === 'string' || (typeof value === 'number' && !Number.isNaN(value));
+}
+
+// First position whose value is >= `value`, or > `value` when `after` is set
+function bound<T>(entries: Array<Entry<T>>, value: number | string, after: boolean): number {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    const current = entries[mid]!.value;
+    if (current < value || (after && current === value)) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+function compareEntries<T>(a: Entry<T>, b: Entry<T>): number {
+  return a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+}
+
+// Numbers and strings of one field, each kept in value order. The filter
+// operators only compare numbers with numbers and strings with strings, so
+// the two live in separate arrays. Other values aren't indexed: no range
+// filter matches them, and equals/in on them falls back to a scan.
+export class SortedIndex<T> implements AttributeIndex<T> {
+  private numbers: Array<Entry<T>> = [];
+  private strings: Array<Entry<T>> = [];
+  private readonly field: keyof T;
+
+  constructor(field: keyof T) {
+    this.field = field;
+  }
+
+  load(items: T[]): void {
+    this.numbers = [];
+    this.strings = [];
+    for (const item of items) {
+      const value = item[this.field];
+      if (isOrdered(value)) {
+        this.entriesFor(value).push({ value, item });
+      }
+    }
+    this.numbers.sort(compareEntries);
+    this.strings.sort(compareEntries);
+  }
+
+  add(item: T): void {
+    const value = item[this.field];
+    if (isOrdered(value)) {
+      const entries = this.entriesFor(value);
+      entries.splice(bound(entries, value, true), 0, { value, item });
+    }
+  }
+
+  remove(item: T): void {
+    const value = item[this.field];
+    if (!isOrdered(value)) {
+      return;
+    }
+    const entries = this.entriesFor(value);
+    for (let i = bound(entries, value, false); entries[i]?.value === value; i++) {
+      if (entries[i]!.item === item) {
+        entries.splice(i, 1);
+        return;
+      }
+    }
+  }
+
+  private entriesFor(value: number | string): Array<Entry<T>> {
+    return typeof value === 'number' ? this.numbers : this.strings;
+  }
+
+  private equalRun(value: number | string): Run<T> {
+    const entries = this.entriesFor(value);
+    return [entries, bound(entries, value, false), bound(entries, value, true)];
+  }
+
+  // The runs holding a filter's matches, or null when the filter can match
+  // values this index leaves out
+  private runsFor(operator: FilterOperator, value: unknown): Array<Run<T>> | null {
+    switch (operator) {
+      case 'equals':
+        if (isOrdered(value)) {
+          return [this.equalRun(value)];
+        }
+        // NaN never equals anything
+        return typeof value === 'number' ? [] : null;
+      case 'in': {
+        if (!Array.isArray(value)) {
+          return [];
+        }
+        const values = [...new Set(value)];
+        return values.every(isOrdered) ? values.map((v) => this.equalRun(v)) : null;
+      }
+      case 'between': {
+        if (!Array.isArray(value) || value.length !== 2) {
+          return [];
+        }
+        const [min, max] = value as unknown[];
+        if (typeof min !== 'number' || typeof max !== 'number') {
+          return null;
+        }
+        // A NaN bound fails every comparison, so nothing is in range
+        if (Number.isNaN(min) || Number.isNaN(max)) {
+          return [];
+        }
+        return [[this.numbers, bound(this.numbers, min, false), bound(this.numbers, max, true)]];
+      }
+      case 'greaterThan':
+      case 'greaterThanOrEqual':
+      case 'lessThan':
+      case 'lessThanOrEqual': {
+        if (!isOrdered(value)) {
+          return [];
+        }
+        const entries = this.entriesFor(value);
+        if (operator === 'greaterThan') {
+          return [[entries, bound(entries, value, true), entries.length]];
+        }
+        if (operator === 'greaterThanOrEqual') {
+          return [[entries, bound(entries, value, false), entries.length]];
+        }
+        if (operator === 'lessThan') {
+          return [[entries, 0, bound(entries, value, false)]];
+        }
+        return [[entries, 0, bound(entries, value, true)]];
+      }
+      default:
+        return null;
+    }
+  }
+
+  count(operator: FilterOperator, value: unknown): number | null {
+    const runs = this.runsFor(operator, value);
+    if (!runs) {
+      return null;
+    }
+    return runs.reduce((total, [, start, end]) => total + Math.max(0, end - start), 0);
+  }
+
+  lookup(operator: FilterOperator, value: unknown): T[] {
+    const items: T[] = [];
+    for (const [entries, start, end] of this.runsFor(operator, value) ?? []) {
+      for (let i = start; i < end; i++) {
+        items.push(entries[i]!.item);
+      }
+    }
+    return items;
+  }
+}
@@ -0,0 +1,4 @@
+export { AttributeIndexes } from './AttributeIndexes.js';
+export { HashIndex } from './HashIndex.js';
+export { SortedIndex } from './SortedIndex.js';
+export type { AttributeIndex } from './AttributeIndexes.js';
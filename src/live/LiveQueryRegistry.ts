@@ -0,0 +1,151 @@
+import type { LiveQueryDelta } from '../core/types.js';
+
+// One result as a live query last saw it, with what's compared next time
+export interface LiveEntry<R> {
+  result: R;
+  lat: number;
+  lng: number;
+  distance?: number;
+  bearing?: number;
+  score?: number;
+}
+
+export interface LiveSubscription<T> {
+  // Whether a mutation of this item could change the results
+  touches(item: T): boolean;
+  // Re-runs the query and reports whatever changed
+  refresh(): void;
+}
+
+// Structural comparison of plain data, so a re-fetched copy of a record only
+// counts as changed when one of its values does
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((value, i) => sameValue(value, b[i]))
+    );
+  }
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(b, key) &&
+        sameValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+    )
+  );
+}
+
+function entryChanged<R>(before: LiveEntry<R>, after: LiveEntry<R>): boolean {
+  return (
+    before.lat !== after.lat ||
+    before.lng !== after.lng ||
+    before.distance !== after.distance ||
+    before.bearing !== after.bearing ||
+    before.score !== after.score ||
+    !sameValue(before.result, after.result)
+  );
+}
+
+// Entries are keyed by item id when the GeoSearch has one, by the item
+// itself otherwise - see LiveQueryRegistry.keyOf()
+export function diffLiveEntries<R>(
+  previous: Map<unknown, LiveEntry<R>>,
+  next: Map<unknown, LiveEntry<R>>
+): LiveQueryDelta<R> {
+  const delta: LiveQueryDelta<R> = { added: [], removed: [], updated: [] };
+  for (const [key, entry] of next) {
+    const before = previous.get(key);
+    if (!before) {
+      delta.added.push(entry.result);
+    } else if (entryChanged(before, entry)) {
+      delta.updated.push(entry.result);
+    }
+  }
+  for (const [key, entry] of previous) {
+    if (!next.has(key)) delta.removed.push(entry.result);
+  }
+  return delta;
+}
+
+// Subscriptions of one GeoSearch. Mutations only mark the subscriptions they
+// touch; those re-run together in a microtask, so everything changed in the
+// same tick arrives as one delta - a remove() and add() of a moved item
+// shows up as `updated`.
+export class LiveQueryRegistry<T> {
+  private readonly subscriptions = new Set<LiveSubscription<T>>();
+  private readonly dirty = new Set<LiveSubscription<T>>();
+  private scheduled = false;
+  private readonly getKey: ((item: T) => unknown) | undefined;
+
+  constructor(getKey?: (item: T) => unknown) {
+    this.getKey = getKey;
+  }
+
+  // What identifies an item across snapshots: its id when ids are set up, so
+  // an upsert() of a re-fetched record is the same result, updated
+  keyOf(item: T): unknown {
+    return this.getKey ? this.getKey(item) : item;
+  }
+
+  register(subscription: LiveSubscription<T>): () => void {
+    this.subscriptions.add(subscription);
+    return () => {
+      this.subscriptions.delete(subscription);
+      this.dirty.delete(subscription);
+    };
+  }
+
+  itemsChanged(items: T[]): void {
+    for (const subscription of this.subscriptions) {
+      if (this.dirty.has(subscription)) continue;
+      if (items.some((item) => subscription.touches(item))) {
+        this.dirty.add(subscription);
+      }
+    }
+    this.schedule();
+  }
+
+  cleared(): void {
+    for (const subscription of this.subscriptions) {
+      this.dirty.add(subscription);
+    }
+    this.schedule();
+  }
+
+  private schedule(): void {
+    if (this.scheduled || this.dirty.size === 0) return;
+    this.scheduled = true;
+    queueMicrotask(() => this.flush());
+  }
+
+  // A throwing callback doesn't stop the others; the first error is rethrown
+  // once every subscription has had its turn
+  private flush(): void {
+    this.scheduled = false;
+    const dirty = [...this.dirty];
+    this.dirty.clear();
+
+    let failure: unknown;
+    for (const subscription of dirty) {
+      if (!this.subscriptions.has(subscription)) continue;
+      try {
+        subscription.refresh();
+      } catch (error) {
+        failure ??= error;
+      }
+    }
+    if (failure !== undefined) {
+      throw failure;
+    }
+  }
+}
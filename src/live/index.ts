@@ -0,0 +1,2 @@
+export { LiveQueryRegistry, diffLiveEntries } from './LiveQueryRegistry.js';
+export type { LiveEntry, LiveSubscription } from './LiveQueryRegistry.js';
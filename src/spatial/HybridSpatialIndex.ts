@@ -0,0 +1,253 @@
+import type { GeoPoint, BoundingBox, DistanceFunction, CoordinateAccessor } from '../core/types.js';
+import { SpatialIndex, type ISpatialIndex } from './index.js';
+import { StaticSpatialIndex } from './StaticSpatialIndex.js';
+import { haversineDistance } from './distance.js';
+import { defaultCoordinates } from './coordinates.js';
+
+interface Hit<T> {
+  item: T;
+  distance: number;
+}
+
+// Small datasets rebuild in microseconds, but not on every single edit
+const MIN_COMPACT_CHANGES = 64;
+
+// Merges two streams that are each in ascending distance order
+function* mergeByDistance<T>(first: Iterable<Hit<T>>, second: Iterable<Hit<T>>): Generator<Hit<T>> {
+  const a = first[Symbol.iterator]();
+  const b = second[Symbol.iterator]();
+  let nextA = a.next();
+  let nextB = b.next();
+  while (!nextA.done || !nextB.done) {
+    if (nextB.done === true || (!nextA.done && nextA.value.distance <= nextB.value.distance)) {
+      yield nextA.value;
+      nextA = a.next();
+    } else {
+      yield nextB.value;
+      nextB = b.next();
+    }
+  }
+}
+
+// Static speed for datasets that mostly don't change. A KDBush base holds the
+// bulk and is never touched between rebuilds; items added since live in a
+// small RBush delta, and base items removed since are tombstoned. Searches
+// query both and drop tombstoned base hits. Once the changes since the last
+// rebuild outgrow compactThreshold of the base, compact() rebuilds the base
+// from everything still indexed and the delta starts over empty.
+export class HybridSpatialIndex<T extends object> implements ISpatialIndex<T> {
+  private readonly base: StaticSpatialIndex<T>;
+  private readonly delta: SpatialIndex<T>;
+  private readonly tombstones = new Set<T>();
+  // Insertion order across base and delta, kept through rebuilds so cursors
+  // taken before a compact() still line up
+  private seqs = new WeakMap<T, number>();
+  private nextSeq = 0;
+  private changes = 0;
+  // Unlike changes, not reset by compact(), which leaves the items as they are
+  private mutations = 0;
+  private readonly compactThreshold: number;
+  private readonly distanceFn: DistanceFunction;
+  private readonly getCoordinates: CoordinateAccessor<T>;
+
+  constructor(
+    distanceFn: DistanceFunction = haversineDistance,
+    getCoordinates: CoordinateAccessor<T> = defaultCoordinates,
+    compactThreshold = 0.1
+  ) {
+    this.distanceFn = distanceFn;
+    this.getCoordinates = getCoordinates;
+    this.compactThreshold = compactThreshold;
+    this.base = new StaticSpatialIndex<T>(distanceFn, getCoordinates);
+    this.delta = new SpatialIndex<T>(distanceFn, getCoordinates);
+    // An empty KDBush still has to be finished before it can be searched
+    this.base.load([]);
+  }
+
+  load(items: T[]): void {
+    this.base.load(items);
+    this.reset(items);
+  }
+
+  private reset(items: T[]): void {
+    this.delta.clear();
+    this.tombstones.clear();
+    this.seqs = new WeakMap();
+    items.forEach((item, i) => this.seqs.set(item, i));
+    this.nextSeq = items.length;
+    this.changes = 0;
+    this.mutations++;
+  }
+
+  add(item: T): void {
+    this.seqs.set(item, this.nextSeq++);
+    this.delta.add(item);
+    this.changed(1);
+  }
+
+  addMany(items: T[]): void {
+    for (const item of items) {
+      this.seqs.set(item, this.nextSeq++);
+    }
+    this.delta.addMany(items);
+    this.changed(items.length);
+  }
+
+  remove(item: T): boolean {
+    if (!this.delta.remove(item)) {
+      if (!this.inBase(item)) {
+        return false;
+      }
+      this.tombstones.add(item);
+    }
+    this.seqs.delete(item);
+    this.changed(1);
+    return true;
+  }
+
+  // A base item moves by being tombstoned and added to the delta at `point`.
+  // The compaction check runs before the move rather than after: until the
+  // caller writes the new position into the item, a rebuild would read the
+  // old one.
+  move(item: T, point: GeoPoint): boolean {
+    this.compactIfNeeded();
+    if (this.delta.move(item, point)) {
+      this.mutations++;
+      return true;
+    }
+    if (!this.inBase(item)) {
+      return false;
+    }
+    this.tombstones.add(item);
+    this.delta.add(item);
+    this.delta.move(item, point);
+    this.changes++;
+    this.mutations++;
+    return true;
+  }
+
+  clear(): void {
+    this.load([]);
+  }
+
+  // Rebuilds the base from every indexed item, in insertion order. Cheap to
+  // call when nothing changed.
+  compact(): void {
+    if (this.changes === 0) {
+      return;
+    }
+    const items = this.all().sort((a, b) => this.seqs.get(a)! - this.seqs.get(b)!);
+    this.base.load(items);
+    this.delta.clear();
+    this.tombstones.clear();
+    this.changes = 0;
+  }
+
+  private changed(count: number): void {
+    this.changes += count;
+    this.mutations++;
+    this.compactIfNeeded();
+  }
+
+  private compactIfNeeded(): void {
+    const limit = Math.max(MIN_COMPACT_CHANGES, this.compactThreshold * this.base.size);
+    if (this.changes > limit) {
+      this.compact();
+    }
+  }
+
+  private inBase(item: T): boolean {
+    return this.base.sequenceOf(item) !== -1 && !this.tombstones.has(item);
+  }
+
+  private isLive = (item: T): boolean => !this.tombstones.has(item);
+
+  get size(): number {
+    return this.base.size - this.tombstones.size + this.delta.size;
+  }
+
+  get version(): number {
+    return this.mutations;
+  }
+
+  // The loaded array itself while nothing has changed
+  all(): T[] {
+    const base = this.base.all();
+    const live = this.tombstones.size === 0 ? base : base.filter(this.isLive);
+    const added = this.delta.all();
+    return added.length === 0 ? live : [...live, ...added];
+  }
+
+  distance(point1: GeoPoint, point2: GeoPoint): number {
+    return this.distanceFn(point1, point2);
+  }
+
+  coordinates(item: T): GeoPoint {
+    return this.getCoordinates(item);
+  }
+
+  sequenceOf(item: T): number {
+    return this.seqs.get(item) ?? -1;
+  }
+
+  // Compacts first, so the snapshot is a plain static one. Restore it with
+  // all() as it is after this call.
+  serialize(): ArrayBuffer {
+    this.compact();
+    return this.base.serialize();
+  }
+
+  restore(data: ArrayBuffer | ArrayBufferView, items: T[]): void {
+    this.base.restore(data, items);
+    this.reset(items);
+  }
+
+  searchBounds(bounds: BoundingBox): T[] {
+    const base = this.base.searchBounds(bounds);
+    const live = this.tombstones.size === 0 ? base : base.filter(this.isLive);
+    return [...live, ...this.delta.searchBounds(bounds)];
+  }
+
+  *iterateBounds(bounds?: BoundingBox): Generator<T> {
+    for (const item of this.base.iterateBounds(bounds)) {
+      if (this.isLive(item)) yield item;
+    }
+    yield* this.delta.iterateBounds(bounds);
+  }
+
+  searchRadius(center: GeoPoint, radiusKm: number): Array<{ item: T; distance: number }> {
+    const base = this.base.searchRadius(center, radiusKm);
+    const live =
+      this.tombstones.size === 0 ? base : base.filter((result) => this.isLive(result.item));
+    return [...live, ...this.delta.searchRadius(center, radiusKm)];
+  }
+
+  searchNearest(
+    center: GeoPoint,
+    k: number,
+    maxDistanceKm: number = Infinity,
+    predicate?: (item: T) => boolean
+  ): Array<{ item: T; distance: number }> {
+    const results: Array<{ item: T; distance: number }> = [];
+    if (k <= 0) {
+      return results;
+    }
+    for (const result of this.iterateNearest(center, maxDistanceKm, predicate)) {
+      results.push(result);
+      if (results.length === k) break;
+    }
+    return results;
+  }
+
+  iterateNearest(
+    center: GeoPoint,
+    maxDistanceKm: number = Infinity,
+    predicate?: (item: T) => boolean
+  ): Iterable<{ item: T; distance: number }> {
+    const basePredicate = (item: T) => this.isLive(item) && (!predicate || predicate(item));
+    return mergeByDistance(
+      this.base.iterateNearest(center, maxDistanceKm, basePredicate),
+      this.delta.iterateNearest(center, maxDistanceKm, predicate)
+    );
+  }
+}
@@ -1,19 +1,51 @@
 import KDBush from 'kdbush';
 import * as geokdbush from 'geokdbush';
-import type { GeoPoint, BoundingBox } from '../core/types.js';
+import type { GeoPoint, BoundingBox, DistanceFunction, CoordinateAccessor } from '../core/types.js';
+import { splitBounds } from './bounds.js';
+import { haversineDistance, distanceToBounds, METRIC_TOLERANCE } from './distance.js';
+import { defaultCoordinates } from './coordinates.js';
+import { PriorityQueue } from '../utils/PriorityQueue.js';
+import { writeSnapshot, readSnapshot, checkSnapshotItems } from './snapshot.js';
+
+// A slice of KDBush's sorted arrays. Bounds aren't stored anywhere - they
+// come from the median points split on the way down, as in geokdbush.
+interface KDNode {
+  left: number;
+  right: number;
+  axis: number;
+  bounds: BoundingBox;
+}
+
+type NearestEntry<T> =
+  | { distance: number; item: T; node?: undefined }
+  | { distance: number; item?: undefined; node: KDNode };
 
 // Static index using KDBush - 5-8x faster than RBush but immutable.
 // KDBush uses a flat typed array internally, which is more cache-friendly
 // and uses ~2x less memory than RBush's tree structure.
-export class StaticSpatialIndex<T extends GeoPoint> {
+export class StaticSpatialIndex<T extends object> {
   private index: KDBush;
   private items: T[];
+  // Item -> position in items. Built on the first sequenceOf() call, since
+  // only cursors and sort tie-breaks need it.
+  private positions: WeakMap<T, number> | null = null;
   private _size: number;
+  private mutations = 0;
+  private readonly distanceFn: DistanceFunction;
+  private readonly getCoordinates: CoordinateAccessor<T>;
+  // geokdbush prunes with its own haversine - other metrics get a safety margin
+  private readonly tolerance: number;
 
-  constructor() {
+  constructor(
+    distanceFn: DistanceFunction = haversineDistance,
+    getCoordinates: CoordinateAccessor<T> = defaultCoordinates
+  ) {
     this.items = [];
     this._size = 0;
     this.index = new KDBush(0);
+    this.distanceFn = distanceFn;
+    this.getCoordinates = getCoordinates;
+    this.tolerance = distanceFn === haversineDistance ? 0 : METRIC_TOLERANCE;
   }
 
   load(items: T[]): void {
@@ -22,10 +54,46 @@ export class StaticSpatialIndex<T extends GeoPoint> {
 
     // KDBush requires knowing the size upfront and uses add() + finish() pattern
     this.index = new KDBush(items.length);
+    this.positions = null;
     for (const item of items) {
-      this.index.add(item.lng, item.lat);
+      const { lat, lng } = this.getCoordinates(item);
+      this.index.add(lng, lat);
     }
     this.index.finish();
+    this.mutations++;
+  }
+
+  // The KDBush buffer already is the whole index, so the snapshot is just
+  // that plus our header
+  serialize(): ArrayBuffer {
+    return writeSnapshot('static', this._size, this.index.data);
+  }
+
+  // Opens a snapshot instead of rebuilding. items must be the array that was
+  // loaded when it was taken; each one is checked against the position the
+  // snapshot holds for it, which is still far cheaper than a rebuild.
+  restore(data: ArrayBuffer | ArrayBufferView, items: T[]): void {
+    const snapshot = readSnapshot(data);
+    checkSnapshotItems(snapshot, 'static', items.length);
+    const index = KDBush.from(snapshot.payload);
+    if (index.numItems !== items.length) {
+      throw new Error('Snapshot is corrupt: KDBush item count does not match its header.');
+    }
+    const { ids, coords } = index;
+    for (let i = 0; i < ids.length; i++) {
+      const { lat, lng } = this.getCoordinates(items[ids[i]!]!);
+      if (lng !== coords[2 * i] || lat !== coords[2 * i + 1]) {
+        throw new Error(
+          'Snapshot positions do not match the items given. Pass the array that was loaded, in the same order.'
+        );
+      }
+    }
+
+    this.index = index;
+    this.items = items;
+    this._size = items.length;
+    this.positions = null;
+    this.mutations++;
   }
 
   add(_item: T): void {
@@ -40,6 +108,10 @@ export class StaticSpatialIndex<T extends GeoPoint> {
     throw new Error('StaticSpatialIndex does not support remove(). Switch to dynamic mode.');
   }
 
+  move(_item: T, _point: GeoPoint): boolean {
+    throw new Error('StaticSpatialIndex does not support move(). Switch to dynamic mode.');
+  }
+
   clear(): void {
     throw new Error('StaticSpatialIndex does not support clear(). Create a new instance instead.');
   }
@@ -48,35 +120,227 @@ export class StaticSpatialIndex<T extends GeoPoint> {
     return this._size;
   }
 
+  get version(): number {
+    return this.mutations;
+  }
+
   all(): T[] {
     return this.items;
   }
 
   searchBounds(bounds: BoundingBox): T[] {
-    const indices = this.index.range(
-      bounds.minLng,
-      bounds.minLat,
-      bounds.maxLng,
-      bounds.maxLat
-    );
-    return indices.map(i => this.items[i]!);
+    // Antimeridian-crossing boxes become two disjoint range queries
+    const results: T[] = [];
+    for (const box of splitBounds(bounds)) {
+      const indices = this.index.range(box.minLng, box.minLat, box.maxLng, box.maxLat);
+      for (const i of indices) {
+        results.push(this.items[i]!);
+      }
+    }
+    return results;
+  }
+
+  // KDBush's range() as a generator, visiting the kd-sorted arrays in the
+  // same order
+  *iterateBounds(bounds?: BoundingBox): Generator<T> {
+    // Taken together, as in iterateNearest
+    const { ids, coords, nodeSize } = this.index;
+    const items = this.items;
+    if (!bounds) {
+      yield* items;
+      return;
+    }
+    for (const { minLng, minLat, maxLng, maxLat } of splitBounds(bounds)) {
+      const inRange = (i: number) => {
+        const lng = coords[2 * i]!;
+        const lat = coords[2 * i + 1]!;
+        return lng >= minLng && lng <= maxLng && lat >= minLat && lat <= maxLat;
+      };
+      const stack = [0, ids.length - 1, 0];
+      while (stack.length > 0) {
+        const axis = stack.pop()!;
+        const right = stack.pop()!;
+        const left = stack.pop()!;
+
+        if (right - left <= nodeSize) {
+          for (let i = left; i <= right; i++) {
+            if (inRange(i)) yield items[ids[i]!]!;
+          }
+          continue;
+        }
+
+        const m = (left + right) >> 1;
+        if (inRange(m)) yield items[ids[m]!]!;
+        const split = axis === 0 ? coords[2 * m]! : coords[2 * m + 1]!;
+        if (axis === 0 ? minLng <= split : minLat <= split) {
+          stack.push(left, m - 1, 1 - axis);
+        }
+        if (axis === 0 ? maxLng >= split : maxLat >= split) {
+          stack.push(m + 1, right, 1 - axis);
+        }
+      }
+    }
+  }
+
+  distance(point1: GeoPoint, point2: GeoPoint): number {
+    return this.distanceFn(point1, point2);
+  }
+
+  coordinates(item: T): GeoPoint {
+    return this.getCoordinates(item);
+  }
+
+  sequenceOf(item: T): number {
+    if (!this.positions) {
+      const positions = new WeakMap<T, number>();
+      this.items.forEach((indexed, i) => positions.set(indexed, i));
+      this.positions = positions;
+    }
+    return this.positions.get(item) ?? -1;
+  }
+
+  private toResults(center: GeoPoint, indices: number[]): Array<{ item: T; distance: number }> {
+    return indices.map(idx => {
+      const item = this.items[idx]!;
+      return { item, distance: this.distanceFn(center, this.getCoordinates(item)) };
+    });
   }
 
   searchRadius(center: GeoPoint, radiusKm: number): Array<{ item: T; distance: number }> {
     // geokdbush.around handles haversine distance internally - no need for
     // our two-phase bbox+haversine approach. Returns indices sorted by distance.
+    // Its traversal measures longitude gaps on the sphere, so it already
+    // handles the antimeridian and poles without splitting.
     const results = geokdbush.around(
       this.index,
       center.lng,
       center.lat,
       undefined,
-      radiusKm
+      radiusKm * (1 + this.tolerance)
     );
 
-    return results.map(idx => {
-      const item = this.items[idx]!;
-      const distance = geokdbush.distance(center.lng, center.lat, item.lng, item.lat);
-      return { item, distance };
-    });
+    // The configured metric makes the final call, so static and dynamic mode
+    // agree on borderline points
+    return this.toResults(center, results).filter(result => result.distance <= radiusKm);
+  }
+
+  searchNearest(
+    center: GeoPoint,
+    k: number,
+    maxDistanceKm: number = Infinity,
+    predicate?: (item: T) => boolean
+  ): Array<{ item: T; distance: number }> {
+    // geokdbush treats maxResults of 0 as "no match yet", not "stop"
+    if (k <= 0) {
+      return [];
+    }
+
+    // The predicate runs inside the traversal, so k counts matching items only
+    const filterFn = predicate ? (idx: number) => predicate(this.items[idx]!) : undefined;
+    const around = (maxResults: number, maxKm: number) =>
+      geokdbush.around(
+        this.index,
+        center.lng,
+        center.lat,
+        maxResults,
+        Number.isFinite(maxKm) ? maxKm : undefined,
+        filterFn
+      );
+
+    if (this.tolerance === 0) {
+      return this.toResults(center, around(k, maxDistanceKm));
+    }
+
+    // geokdbush ranks by haversine, which can order points differently from
+    // the configured metric. Its k nearest bound how far the metric's k nearest
+    // can be, so a second pass out to that reach catches anything misranked.
+    const paddedKm = maxDistanceKm * (1 + this.tolerance);
+    let candidates = this.toResults(center, around(k, paddedKm));
+    if (candidates.length === k) {
+      const kthDistance = candidates.reduce((max, result) => Math.max(max, result.distance), 0);
+      const reachKm = Math.min(paddedKm, kthDistance * (1 + this.tolerance));
+      candidates = this.toResults(center, around(Infinity, reachKm));
+    }
+
+    return candidates
+      .filter(result => result.distance <= maxDistanceKm)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, k);
+  }
+
+  // geokdbush.around only returns complete result lists, so incremental
+  // iteration walks KDBush's arrays directly, ranking items by the configured
+  // metric and nodes by the tolerance-shrunk spherical bound
+  *iterateNearest(
+    center: GeoPoint,
+    maxDistanceKm: number = Infinity,
+    predicate?: (item: T) => boolean
+  ): Generator<{ item: T; distance: number }> {
+    // Taken together, so a load() while a caller is still iterating can't
+    // pair the old tree with the new items
+    const { ids, coords, nodeSize } = this.index;
+    const items = this.items;
+    if (ids.length === 0) {
+      return;
+    }
+
+    const queue = new PriorityQueue<NearestEntry<T>>((a, b) => a.distance - b.distance);
+    const pushItem = (i: number) => {
+      const item = items[ids[i]!]!;
+      if (predicate && !predicate(item)) return;
+      const distance = this.distanceFn(center, { lat: coords[2 * i + 1]!, lng: coords[2 * i]! });
+      if (distance <= maxDistanceKm) {
+        queue.push({ distance, item });
+      }
+    };
+    const pushNode = (node: KDNode) => {
+      if (node.left > node.right) return;
+      const distance = distanceToBounds(center, node.bounds) / (1 + this.tolerance);
+      if (distance <= maxDistanceKm) {
+        queue.push({ distance, node });
+      }
+    };
+
+    let node: KDNode | undefined = {
+      left: 0,
+      right: ids.length - 1,
+      axis: 0,
+      bounds: { minLat: -90, maxLat: 90, minLng: -180, maxLng: 180 },
+    };
+
+    while (node) {
+      const { left, right, axis, bounds } = node;
+      if (right - left <= nodeSize) {
+        for (let i = left; i <= right; i++) {
+          pushItem(i);
+        }
+      } else {
+        // The median point belongs to neither half
+        const middle = (left + right) >> 1;
+        pushItem(middle);
+        const midLng = coords[2 * middle]!;
+        const midLat = coords[2 * middle + 1]!;
+        const nextAxis = 1 - axis;
+        pushNode({
+          left,
+          right: middle - 1,
+          axis: nextAxis,
+          bounds: axis === 0 ? { ...bounds, maxLng: midLng } : { ...bounds, maxLat: midLat },
+        });
+        pushNode({
+          left: middle + 1,
+          right,
+          axis: nextAxis,
+          bounds: axis === 0 ? { ...bounds, minLng: midLng } : { ...bounds, minLat: midLat },
+        });
+      }
+
+      while (queue.length > 0 && queue.peek()!.item !== undefined) {
+        const { item, distance } = queue.pop()!;
+        yield { item: item!, distance };
+      }
+
+      node = queue.pop()?.node;
+    }
   }
 }
@@ -1,4 +1,5 @@
 import type { GeoPoint, BoundingBox } from '../core/types.js';
+import { EARTH_RADIUS_KM } from './distance.js';
 
 // 111.32 km per degree of latitude is constant everywhere on Earth
 // (Earth's circumference / 360 degrees ≈ 40075 / 360)
@@ -19,26 +20,80 @@ export function kmToLngDegrees(km: number, latitude: number): number {
 }
 
 // Creates a bounding box that fully contains a circle of the given radius.
-// The box will be slightly larger than necessary at non-equator latitudes.
+// Works from the angular radius on the same sphere haversineDistance uses, so
+// the box never clips the circle. Longitudes are normalized to [-180, 180],
+// which means a circle crossing the antimeridian yields minLng > maxLng.
 export function radiusToBoundingBox(center: GeoPoint, radiusKm: number): BoundingBox {
-  const latDelta = kmToLatDegrees(radiusKm);
-  const lngDelta = kmToLngDegrees(radiusKm, center.lat);
+  const angularRadius = radiusKm / EARTH_RADIUS_KM;
+  const latDelta = (angularRadius * 180) / Math.PI;
+  const minLat = center.lat - latDelta;
+  const maxLat = center.lat + latDelta;
+
+  // A circle that reaches a pole wraps all the way around it, covering every
+  // longitude. Same story when the cosine term would blow up near the poles.
+  const cosLat = Math.cos((center.lat * Math.PI) / 180);
+  const sinRadius = Math.sin(Math.min(angularRadius, Math.PI / 2));
+  if (minLat <= -90 || maxLat >= 90 || sinRadius >= cosLat) {
+    return {
+      minLat: clampLatitude(minLat),
+      maxLat: clampLatitude(maxLat),
+      minLng: -180,
+      maxLng: 180,
+    };
+  }
+
+  // Widest longitude offset reached by the circle - it occurs poleward of the
+  // center, which is why the flat km / (111.32 * cos(lat)) estimate falls short
+  const lngDelta = (Math.asin(sinRadius / cosLat) * 180) / Math.PI;
 
   return {
-    minLat: center.lat - latDelta,
-    maxLat: center.lat + latDelta,
-    minLng: center.lng - lngDelta,
-    maxLng: center.lng + lngDelta,
+    minLat,
+    maxLat,
+    minLng: normalizeLongitude(center.lng - lngDelta),
+    maxLng: normalizeLongitude(center.lng + lngDelta),
   };
 }
 
 export function isPointInBounds(point: GeoPoint, bounds: BoundingBox): boolean {
-  return (
-    point.lat >= bounds.minLat &&
-    point.lat <= bounds.maxLat &&
-    point.lng >= bounds.minLng &&
-    point.lng <= bounds.maxLng
-  );
+  if (point.lat < bounds.minLat || point.lat > bounds.maxLat) {
+    return false;
+  }
+  if (bounds.maxLng - bounds.minLng >= 360) {
+    return true;
+  }
+
+  const minLng = normalizeLongitude(bounds.minLng);
+  const maxLng = normalizeLongitude(bounds.maxLng);
+  const lng = normalizeLongitude(point.lng);
+
+  // minLng > maxLng means the box wraps across the antimeridian
+  if (minLng <= maxLng) {
+    return lng >= minLng && lng <= maxLng;
+  }
+  return lng >= minLng || lng <= maxLng;
+}
+
+// Spatial indexes only understand plain min <= max ranges, so a box crossing
+// the antimeridian becomes two lookups: [minLng, 180] and [-180, maxLng].
+// Also accepts unnormalized input like { minLng: 170, maxLng: 190 }.
+export function splitBounds(bounds: BoundingBox): BoundingBox[] {
+  const minLat = clampLatitude(bounds.minLat);
+  const maxLat = clampLatitude(bounds.maxLat);
+
+  if (bounds.maxLng - bounds.minLng >= 360) {
+    return [{ minLat, maxLat, minLng: -180, maxLng: 180 }];
+  }
+
+  const minLng = normalizeLongitude(bounds.minLng);
+  const maxLng = normalizeLongitude(bounds.maxLng);
+
+  if (minLng <= maxLng) {
+    return [{ minLat, maxLat, minLng, maxLng }];
+  }
+  return [
+    { minLat, maxLat, minLng, maxLng: 180 },
+    { minLat, maxLat, minLng: -180, maxLng },
+  ];
 }
 
 export function normalizeLongitude(lng: number): number {
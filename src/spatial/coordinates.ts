@@ -0,0 +1,70 @@
+import type { GeoPoint, CoordinateAccessor, GeoSearchOptions } from '../core/types.js';
+
+// Items that already are GeoPoints are their own coordinates - no allocation
+export function defaultCoordinates<T>(item: T): GeoPoint {
+  return item as unknown as GeoPoint;
+}
+
+export function getPath(item: unknown, path: string[]): unknown {
+  let value = item;
+  for (const key of path) {
+    if (value === null || value === undefined) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+// Dot paths into the item. Array indices work too, so GeoJSON-style
+// { location: { coordinates: [lng, lat] } } is latField 'location.coordinates.1'.
+export function fieldPathAccessor<T>(latField: string, lngField: string): CoordinateAccessor<T> {
+  const latPath = latField.split('.');
+  const lngPath = lngField.split('.');
+  return (item) => ({
+    lat: getPath(item, latPath) as number,
+    lng: getPath(item, lngPath) as number,
+  });
+}
+
+export function resolveCoordinateAccessor<T>(
+  options: Pick<GeoSearchOptions<T>, 'getCoordinates' | 'latField' | 'lngField'> = {}
+): CoordinateAccessor<T> {
+  const { getCoordinates, latField, lngField } = options;
+  if (getCoordinates && (latField !== undefined || lngField !== undefined)) {
+    throw new Error('Use either getCoordinates or latField/lngField, not both.');
+  }
+  if (getCoordinates) {
+    return getCoordinates;
+  }
+  if (latField !== undefined || lngField !== undefined) {
+    if (latField === undefined || lngField === undefined) {
+      throw new Error('latField and lngField must be set together.');
+    }
+    return fieldPathAccessor(latField, lngField);
+  }
+  return defaultCoordinates;
+}
+
+function setPath(item: unknown, path: string[], value: number): void {
+  const parent = getPath(item, path.slice(0, -1));
+  if (parent === null || typeof parent !== 'object') {
+    throw new Error(`Cannot set '${path.join('.')}': the item has no object at that path.`);
+  }
+  (parent as Record<string, unknown>)[path[path.length - 1]!] = value;
+}
+
+// Writes a new position into an item, for move(). Only coordinates that live
+// in fields can be written - a getCoordinates function has no inverse.
+export function resolveCoordinateSetter<T>(
+  options: Pick<GeoSearchOptions<T>, 'getCoordinates' | 'latField' | 'lngField'> = {}
+): ((item: T, point: GeoPoint) => void) | undefined {
+  const { getCoordinates, latField = 'lat', lngField = 'lng' } = options;
+  if (getCoordinates) {
+    return undefined;
+  }
+  const latPath = latField.split('.');
+  const lngPath = lngField.split('.');
+  return (item, point) => {
+    setPath(item, latPath, point.lat);
+    setPath(item, lngPath, point.lng);
+  };
+}
@@ -1,13 +1,35 @@
-import type { GeoPoint } from '../core/types.js';
+import type {
+  GeoPoint,
+  BoundingBox,
+  DistanceFunction,
+  DistanceMetric,
+  DistanceUnit,
+  BearingSector,
+} from '../core/types.js';
 
 // Mean Earth radius in km. Could use 6378 (equatorial) or 6357 (polar),
 // but 6371 is the standard for general-purpose calculations.
-const EARTH_RADIUS_KM = 6371;
+export const EARTH_RADIUS_KM = 6371;
 
 function toRadians(degrees: number): number {
   return degrees * (Math.PI / 180);
 }
 
+function toDegrees(radians: number): number {
+  return radians * (180 / Math.PI);
+}
+
+// WGS84 ellipsoid parameters, used by Vincenty's formulae
+const WGS84_A = 6378.137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+
+// How far a distance metric may disagree with haversine before index pruning
+// stops being exact. Indexes prune with spherical bounds, so they widen their
+// search by this fraction whenever a different metric is in use. The built-in
+// metrics stay well inside it (Vincenty differs from the sphere by <0.6%).
+export const METRIC_TOLERANCE = 0.01;
+
 // Haversine formula for great-circle distance. Accurate to ~0.5% which is
 // good enough for most use cases. For sub-meter precision, use Vincenty.
 export function haversineDistance(point1: GeoPoint, point2: GeoPoint): number {
@@ -25,6 +47,143 @@ export function haversineDistance(point1: GeoPoint, point2: GeoPoint): number {
   return EARTH_RADIUS_KM * c;
 }
 
+// Vincenty's inverse formula on the WGS84 ellipsoid. Sub-millimetre accurate,
+// but iterative and several times slower than haversine. The iteration can
+// fail to converge for nearly antipodal points, where we fall back to haversine.
+export function vincentyDistance(point1: GeoPoint, point2: GeoPoint): number {
+  const L = toRadians(point2.lng - point1.lng);
+  const U1 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(point1.lat)));
+  const U2 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(point2.lat)));
+  const sinU1 = Math.sin(U1);
+  const cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2);
+  const cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  let sinSigma = 0;
+  let cosSigma = 0;
+  let sigma = 0;
+  let cosSqAlpha = 0;
+  let cos2SigmaM = 0;
+
+  for (let iteration = 0; iteration < 200; iteration++) {
+    const sinLambda = Math.sin(lambda);
+    const cosLambda = Math.cos(lambda);
+    sinSigma = Math.sqrt(
+      (cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2
+    );
+    if (sinSigma === 0) {
+      return 0;
+    }
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    cosSqAlpha = 1 - sinAlpha * sinAlpha;
+    // Both points on the equator: cosSqAlpha is 0 and cos2SigmaM is unused
+    cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha : 0;
+    const C = (WGS84_F / 16) * cosSqAlpha * (4 + WGS84_F * (4 - 3 * cosSqAlpha));
+    const previousLambda = lambda;
+    lambda =
+      L +
+      (1 - C) *
+        WGS84_F *
+        sinAlpha *
+        (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM ** 2)));
+
+    if (Math.abs(lambda - previousLambda) < 1e-12) {
+      const uSq = (cosSqAlpha * (WGS84_A ** 2 - WGS84_B ** 2)) / WGS84_B ** 2;
+      const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+      const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+      const deltaSigma =
+        B *
+        sinSigma *
+        (cos2SigmaM +
+          (B / 4) *
+            (cosSigma * (-1 + 2 * cos2SigmaM ** 2) -
+              (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma ** 2) * (-3 + 4 * cos2SigmaM ** 2)));
+      return WGS84_B * A * (sigma - deltaSigma);
+    }
+  }
+
+  return haversineDistance(point1, point2);
+}
+
+// Equirectangular projection - treats the area between the points as flat.
+// A fraction of haversine's cost and within 0.1% of it over city-scale
+// distances, but the error grows with distance and latitude.
+export function equirectangularDistance(point1: GeoPoint, point2: GeoPoint): number {
+  const meanLat = toRadians((point1.lat + point2.lat) / 2);
+  let deltaLng = point2.lng - point1.lng;
+  // Take the short way around across the antimeridian
+  if (deltaLng > 180) deltaLng -= 360;
+  if (deltaLng < -180) deltaLng += 360;
+  const x = toRadians(deltaLng) * Math.cos(meanLat);
+  const y = toRadians(point2.lat - point1.lat);
+  return EARTH_RADIUS_KM * Math.sqrt(x * x + y * y);
+}
+
+const distanceMetrics: Record<Exclude<DistanceMetric, DistanceFunction>, DistanceFunction> = {
+  haversine: haversineDistance,
+  vincenty: vincentyDistance,
+  equirectangular: equirectangularDistance,
+};
+
+export function resolveDistanceMetric(metric: DistanceMetric = 'haversine'): DistanceFunction {
+  if (typeof metric === 'function') {
+    return metric;
+  }
+  const distanceFn = distanceMetrics[metric];
+  if (!distanceFn) {
+    throw new Error(`Unknown distance metric: ${String(metric)}`);
+  }
+  return distanceFn;
+}
+
+// Initial compass bearing of the great circle from one point to another, in
+// degrees clockwise from north, normalized to [0, 360)
+export function initialBearing(from: GeoPoint, to: GeoPoint): number {
+  const lat1 = toRadians(from.lat);
+  const lat2 = toRadians(to.lat);
+  const deltaLng = toRadians(to.lng - from.lng);
+
+  const y = Math.sin(deltaLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLng);
+
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+// Sectors run clockwise, so fromBearing > toBearing wraps through north
+export function isBearingInSector(bearing: number, sector: BearingSector): boolean {
+  const from = ((sector.fromBearing % 360) + 360) % 360;
+  const to = ((sector.toBearing % 360) + 360) % 360;
+  const b = ((bearing % 360) + 360) % 360;
+  if (from <= to) {
+    return b >= from && b <= to;
+  }
+  return b >= from || b <= to;
+}
+
+// Exact by definition: the international mile is 1609.344m and the nautical
+// mile 1852m
+const KM_PER_UNIT: Record<DistanceUnit, number> = {
+  km: 1,
+  mi: 1.609344,
+  m: 0.001,
+  nmi: 1.852,
+};
+
+export function toKilometers(distance: number, units: DistanceUnit = 'km'): number {
+  return distance * KM_PER_UNIT[units];
+}
+
+export function fromKilometers(km: number, units: DistanceUnit = 'km'): number {
+  return km / KM_PER_UNIT[units];
+}
+
+export function convertDistance(distance: number, from: DistanceUnit, to: DistanceUnit): number {
+  return fromKilometers(toKilometers(distance, from), to);
+}
+
 // Squared Euclidean distance - useful for comparing relative distances
 // without the sqrt overhead. Not geographically accurate.
 export function squaredDistance(point1: GeoPoint, point2: GeoPoint): number {
@@ -32,3 +191,40 @@ export function squaredDistance(point1: GeoPoint, point2: GeoPoint): number {
   const dLng = point2.lng - point1.lng;
   return dLat * dLat + dLng * dLng;
 }
+
+// Lower bound on the great-circle distance from a point to anything inside a
+// bounding box. Used to prune R-tree nodes during nearest-neighbor search.
+// Same approach as geokdbush's boxDist, expressed in km.
+export function distanceToBounds(point: GeoPoint, bounds: BoundingBox): number {
+  if (point.lng >= bounds.minLng && point.lng <= bounds.maxLng) {
+    if (point.lat < bounds.minLat) {
+      return haversineDistance(point, { lat: bounds.minLat, lng: point.lng });
+    }
+    if (point.lat > bounds.maxLat) {
+      return haversineDistance(point, { lat: bounds.maxLat, lng: point.lng });
+    }
+    return 0;
+  }
+
+  // West or east of the box - the closest point is on the nearer meridian edge,
+  // but not necessarily at the query latitude since great circles bow poleward
+  const westGap = Math.abs(Math.sin(toRadians(point.lng - bounds.minLng) / 2));
+  const eastGap = Math.abs(Math.sin(toRadians(point.lng - bounds.maxLng) / 2));
+  const edgeLng = westGap < eastGap ? bounds.minLng : bounds.maxLng;
+
+  const cosDeltaLng = Math.cos(toRadians(edgeLng - point.lng));
+  const extremumLat =
+    cosDeltaLng <= 0
+      ? point.lat > 0
+        ? 90
+        : -90
+      : toDegrees(Math.atan(Math.tan(toRadians(point.lat)) / cosDeltaLng));
+
+  if (extremumLat > bounds.minLat && extremumLat < bounds.maxLat) {
+    return haversineDistance(point, { lat: extremumLat, lng: edgeLng });
+  }
+  return Math.min(
+    haversineDistance(point, { lat: bounds.minLat, lng: edgeLng }),
+    haversineDistance(point, { lat: bounds.maxLat, lng: edgeLng })
+  );
+}
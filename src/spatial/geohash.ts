@@ -0,0 +1,120 @@
+import type { BoundingBox, DecodedGeohash, GeohashNeighbors } from '../core/types.js';
+import { normalizeLongitude } from './bounds.js';
+
+// Geohash base32 alphabet - omits a, i, l and o to avoid confusion
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// Interleaves longitude and latitude bisections, 5 bits per character,
+// starting with longitude. Precision 1 is ~5000km cells, 9 is ~5m.
+export function encodeGeohash(lat: number, lng: number, precision: number = 9): string {
+  if (!Number.isInteger(precision) || precision < 1 || precision > 12) {
+    throw new Error('Geohash precision must be an integer between 1 and 12.');
+  }
+
+  let minLat = -90;
+  let maxLat = 90;
+  let minLng = -180;
+  let maxLng = 180;
+  let hash = '';
+  let bits = 0;
+  let bitCount = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (minLng + maxLng) / 2;
+      if (lng >= mid) {
+        bits = (bits << 1) | 1;
+        minLng = mid;
+      } else {
+        bits = bits << 1;
+        maxLng = mid;
+      }
+    } else {
+      const mid = (minLat + maxLat) / 2;
+      if (lat >= mid) {
+        bits = (bits << 1) | 1;
+        minLat = mid;
+      } else {
+        bits = bits << 1;
+        maxLat = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bitCount === 5) {
+      hash += BASE32[bits];
+      bits = 0;
+      bitCount = 0;
+    }
+  }
+
+  return hash;
+}
+
+export function geohashBounds(hash: string): BoundingBox {
+  let minLat = -90;
+  let maxLat = 90;
+  let minLng = -180;
+  let maxLng = 180;
+  let evenBit = true;
+
+  for (const char of hash.toLowerCase()) {
+    const value = BASE32.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid geohash '${hash}'.`);
+    }
+    for (let bit = 4; bit >= 0; bit--) {
+      const isSet = ((value >> bit) & 1) === 1;
+      if (evenBit) {
+        const mid = (minLng + maxLng) / 2;
+        if (isSet) minLng = mid;
+        else maxLng = mid;
+      } else {
+        const mid = (minLat + maxLat) / 2;
+        if (isSet) minLat = mid;
+        else maxLat = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return { minLat, maxLat, minLng, maxLng };
+}
+
+// Center of the cell, with the half-size of the cell as the error margin
+export function decodeGeohash(hash: string): DecodedGeohash {
+  const { minLat, maxLat, minLng, maxLng } = geohashBounds(hash);
+  return {
+    lat: (minLat + maxLat) / 2,
+    lng: (minLng + maxLng) / 2,
+    error: { lat: (maxLat - minLat) / 2, lng: (maxLng - minLng) / 2 },
+  };
+}
+
+// The eight surrounding cells at the same precision. Longitude wraps across
+// the antimeridian; rows past a pole don't exist and come back as null.
+export function geohashNeighbors(hash: string): GeohashNeighbors {
+  const { lat, lng, error } = decodeGeohash(hash);
+  const height = error.lat * 2;
+  const width = error.lng * 2;
+
+  const at = (rows: number, cols: number): string | null => {
+    const neighborLat = lat + rows * height;
+    if (neighborLat > 90 || neighborLat < -90) {
+      return null;
+    }
+    return encodeGeohash(neighborLat, normalizeLongitude(lng + cols * width), hash.length);
+  };
+
+  return {
+    n: at(1, 0),
+    ne: at(1, 1),
+    e: at(0, 1),
+    se: at(-1, 1),
+    s: at(-1, 0),
+    sw: at(-1, -1),
+    w: at(0, -1),
+    nw: at(1, -1),
+  };
+}
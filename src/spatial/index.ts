@@ -1,41 +1,120 @@
-import RBush from 'rbush';
-import type { GeoPoint, IndexedItem, BoundingBox } from '../core/types.js';
-import { radiusToBoundingBox } from './bounds.js';
-import { haversineDistance } from './distance.js';
+import RBush, { type BBox } from 'rbush';
+import type {
+  GeoPoint,
+  IndexedItem,
+  BoundingBox,
+  DistanceFunction,
+  CoordinateAccessor,
+} from '../core/types.js';
+import { radiusToBoundingBox, splitBounds } from './bounds.js';
+import { haversineDistance, distanceToBounds, METRIC_TOLERANCE } from './distance.js';
+import { defaultCoordinates } from './coordinates.js';
+import { writeSnapshot, readSnapshot, checkSnapshotItems } from './snapshot.js';
+import { PriorityQueue } from '../utils/PriorityQueue.js';
 
-export interface ISpatialIndex<T extends GeoPoint> {
+export interface ISpatialIndex<T extends object> {
   load(items: T[]): void;
   add(item: T): void;
   addMany(items: T[]): void;
   remove(item: T): boolean;
+  // Re-positions an indexed item at `point` without re-reading its coordinates
+  move(item: T, point: GeoPoint): boolean;
   clear(): void;
   readonly size: number;
+  // Goes up with every change to the indexed items, so state derived from
+  // them can tell when it's stale
+  readonly version: number;
   all(): T[];
+  distance(point1: GeoPoint, point2: GeoPoint): number;
+  // Where an item is, read through the configured coordinate accessor
+  coordinates(item: T): GeoPoint;
+  // Position in insertion order, stable while the item stays in the index
+  sequenceOf(item: T): number;
+  // Binary snapshot of the built index, restorable without re-reading items
+  serialize(): ArrayBuffer;
+  restore(data: ArrayBuffer | ArrayBufferView, items: T[]): void;
   searchBounds(bounds: BoundingBox): T[];
+  // searchBounds() one item at a time, or all() without bounds, in the same
+  // order - the tree walk stops when the caller stops pulling
+  iterateBounds(bounds?: BoundingBox): Iterable<T>;
   searchRadius(center: GeoPoint, radiusKm: number): Array<{ item: T; distance: number }>;
+  searchNearest(
+    center: GeoPoint,
+    k: number,
+    maxDistanceKm?: number,
+    predicate?: (item: T) => boolean
+  ): Array<{ item: T; distance: number }>;
+  // Same traversal as searchNearest, one item at a time in ascending distance
+  // and without a k - work stops when the caller stops pulling
+  iterateNearest(
+    center: GeoPoint,
+    maxDistanceKm?: number,
+    predicate?: (item: T) => boolean
+  ): Iterable<{ item: T; distance: number }>;
 }
 
+// RBush's internal node shape. Not part of its public typings, but toJSON()
+// hands back the root node and we need it to walk the tree best-first.
+interface RBushNode<T> {
+  children: Array<RBushNode<T> | IndexedItem<T>>;
+  height: number;
+  leaf: boolean;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+function intersects(a: BBox, b: BBox): boolean {
+  return b.minX <= a.maxX && b.minY <= a.maxY && b.maxX >= a.minX && b.maxY >= a.minY;
+}
+
+function contains(a: BBox, b: BBox): boolean {
+  return a.minX <= b.minX && a.minY <= b.minY && b.maxX <= a.maxX && b.maxY <= a.maxY;
+}
+
+type NearestEntry<T> =
+  | { distance: number; item: T; node?: undefined }
+  | { distance: number; item?: undefined; node: RBushNode<T> };
+
 // Dynamic index using RBush - supports add/remove but slower than KDBush.
 // Use this when your dataset changes after initialization.
-export class SpatialIndex<T extends GeoPoint> implements ISpatialIndex<T> {
+export class SpatialIndex<T extends object> implements ISpatialIndex<T> {
   private tree: RBush<IndexedItem<T>>;
   // WeakMap allows items to be garbage collected when removed from user's array,
   // even if they forget to call remove()
   private itemToIndexed: WeakMap<T, IndexedItem<T>>;
+  private readonly distanceFn: DistanceFunction;
+  private readonly getCoordinates: CoordinateAccessor<T>;
+  // Tree pruning uses spherical bounds - other metrics get a safety margin
+  private readonly tolerance: number;
+  // Never reset, so items added after clear() still sort after older cursors
+  private nextSeq = 0;
+  // Kept by hand - RBush can only count by collecting every item
+  private count = 0;
+  private mutations = 0;
 
-  constructor() {
+  constructor(
+    distanceFn: DistanceFunction = haversineDistance,
+    getCoordinates: CoordinateAccessor<T> = defaultCoordinates
+  ) {
     this.tree = new RBush<IndexedItem<T>>();
     this.itemToIndexed = new WeakMap();
+    this.distanceFn = distanceFn;
+    this.getCoordinates = getCoordinates;
+    this.tolerance = distanceFn === haversineDistance ? 0 : METRIC_TOLERANCE;
   }
 
   private createIndexedItem(item: T): IndexedItem<T> {
     // RBush expects minX/maxX/minY/maxY - for points these are identical
+    const { lat, lng } = this.getCoordinates(item);
     return {
-      minX: item.lng,
-      minY: item.lat,
-      maxX: item.lng,
-      maxY: item.lat,
+      minX: lng,
+      minY: lat,
+      maxX: lng,
+      maxY: lat,
       item,
+      seq: this.nextSeq++,
     };
   }
 
@@ -46,12 +125,16 @@ export class SpatialIndex<T extends GeoPoint> implements ISpatialIndex<T> {
       return indexed;
     });
     this.tree.load(indexedItems);
+    this.count += indexedItems.length;
+    this.mutations++;
   }
 
   add(item: T): void {
     const indexed = this.createIndexedItem(item);
     this.itemToIndexed.set(item, indexed);
     this.tree.insert(indexed);
+    this.count++;
+    this.mutations++;
   }
 
   addMany(items: T[]): void {
@@ -67,42 +150,242 @@ export class SpatialIndex<T extends GeoPoint> implements ISpatialIndex<T> {
     }
     this.tree.remove(indexed);
     this.itemToIndexed.delete(item);
+    this.count--;
+    this.mutations++;
+    return true;
+  }
+
+  // Keeps the item's seq, so cursors still place it where it was
+  move(item: T, point: GeoPoint): boolean {
+    const indexed = this.itemToIndexed.get(item);
+    if (!indexed) {
+      return false;
+    }
+    this.tree.remove(indexed);
+    indexed.minX = indexed.maxX = point.lng;
+    indexed.minY = indexed.maxY = point.lat;
+    this.tree.insert(indexed);
+    this.mutations++;
     return true;
   }
 
   clear(): void {
     this.tree.clear();
     this.itemToIndexed = new WeakMap();
+    this.count = 0;
+    this.mutations++;
   }
 
   get size(): number {
-    return this.tree.all().length;
+    return this.count;
+  }
+
+  get version(): number {
+    return this.mutations;
   }
 
   all(): T[] {
     return this.tree.all().map((indexed) => indexed.item);
   }
 
-  searchBounds(bounds: BoundingBox): T[] {
-    const results = this.tree.search({
-      minX: bounds.minLng,
-      minY: bounds.minLat,
-      maxX: bounds.maxLng,
-      maxY: bounds.maxLat,
+  distance(point1: GeoPoint, point2: GeoPoint): number {
+    return this.distanceFn(point1, point2);
+  }
+
+  coordinates(item: T): GeoPoint {
+    return this.getCoordinates(item);
+  }
+
+  sequenceOf(item: T): number {
+    return this.itemToIndexed.get(item)?.seq ?? -1;
+  }
+
+  // Pre-order walk of the tree into one Float64Array. Each node is
+  // [height, leaf, childCount, minX, minY, maxX, maxY]; a leaf's entries follow
+  // it as [itemIndex, lng, lat], itemIndex being the item's insertion rank.
+  serialize(): ArrayBuffer {
+    const entries = this.tree.all();
+    const ranks = new Map<IndexedItem<T>, number>();
+    [...entries].sort((a, b) => a.seq - b.seq).forEach((entry, rank) => ranks.set(entry, rank));
+
+    const values: number[] = [];
+    const visit = (node: RBushNode<T>): void => {
+      const { height, leaf, children, minX, minY, maxX, maxY } = node;
+      values.push(height, leaf ? 1 : 0, children.length, minX, minY, maxX, maxY);
+      for (const child of children) {
+        if (leaf) {
+          const entry = child as IndexedItem<T>;
+          values.push(ranks.get(entry)!, entry.minX, entry.minY);
+        } else {
+          visit(child as RBushNode<T>);
+        }
+      }
+    };
+    visit(this.tree.toJSON() as RBushNode<T>);
+
+    return writeSnapshot('dynamic', entries.length, new Float64Array(values).buffer);
+  }
+
+  // Rebuilds the node objects as they were, so nothing is re-inserted or
+  // re-split. items can be in insertion order - for an index that never had
+  // removals, the array it was loaded from - or in all() order as of the
+  // serialize() call. Which one is told apart by the positions the snapshot
+  // holds, and anything matching neither throws.
+  restore(data: ArrayBuffer | ArrayBufferView, items: T[]): void {
+    const snapshot = readSnapshot(data);
+    checkSnapshotItems(snapshot, 'dynamic', items.length);
+    const values = new Float64Array(snapshot.payload);
+    const corrupt = () => new Error('Snapshot is corrupt: tree data does not match its header.');
+    // Leaf entries in insertion order; their items are filled in below
+    const entries: Array<IndexedItem<T>> = [];
+
+    let pos = 0;
+    let leafCount = 0;
+    const read = (): RBushNode<T> => {
+      if (pos + 7 > values.length) throw corrupt();
+      const node: RBushNode<T> = {
+        children: [],
+        height: values[pos]!,
+        leaf: values[pos + 1] === 1,
+        minX: values[pos + 3]!,
+        minY: values[pos + 4]!,
+        maxX: values[pos + 5]!,
+        maxY: values[pos + 6]!,
+      };
+      const count = values[pos + 2]!;
+      pos += 7;
+
+      for (let i = 0; i < count; i++) {
+        if (!node.leaf) {
+          node.children.push(read());
+          continue;
+        }
+        const seq = values[pos]!;
+        if (pos + 3 > values.length || !(seq >= 0 && seq < items.length) || entries[seq]) {
+          throw corrupt();
+        }
+        const lng = values[pos + 1]!;
+        const lat = values[pos + 2]!;
+        // The item is set once the order the items came in is known
+        const indexed = {
+          minX: lng,
+          minY: lat,
+          maxX: lng,
+          maxY: lat,
+          item: null as unknown as T,
+          seq,
+        };
+        entries[seq] = indexed;
+        node.children.push(indexed);
+        leafCount++;
+        pos += 3;
+      }
+      return node;
+    };
+
+    const root = read();
+    if (pos !== values.length || leafCount !== items.length) throw corrupt();
+
+    const isAt = (item: T, entry: IndexedItem<T>) => {
+      const { lat, lng } = this.getCoordinates(item);
+      return lng === entry.minX && lat === entry.minY;
+    };
+    let order = entries;
+    if (!entries.every((entry, i) => isAt(items[i]!, entry))) {
+      order = new RBush<IndexedItem<T>>().fromJSON(root).all();
+      if (!order.every((entry, i) => isAt(items[i]!, entry))) {
+        throw new Error(
+          'Snapshot positions do not match the items given. ' +
+            'Pass them in insertion order or as all() returned them.'
+        );
+      }
+    }
+
+    const itemToIndexed = new WeakMap<T, IndexedItem<T>>();
+    order.forEach((entry, i) => {
+      entry.item = items[i]!;
+      itemToIndexed.set(entry.item, entry);
     });
-    return results.map((indexed) => indexed.item);
+    this.tree.fromJSON(root);
+    this.itemToIndexed = itemToIndexed;
+    this.nextSeq = items.length;
+    this.count = items.length;
+    this.mutations++;
+  }
+
+  searchBounds(bounds: BoundingBox): T[] {
+    // Boxes crossing the antimeridian split into two disjoint lookups, so
+    // concatenating the results can't produce duplicates
+    const results: T[] = [];
+    for (const box of splitBounds(bounds)) {
+      const matches = this.tree.search({
+        minX: box.minLng,
+        minY: box.minLat,
+        maxX: box.maxLng,
+        maxY: box.maxLat,
+      });
+      for (const indexed of matches) {
+        results.push(indexed.item);
+      }
+    }
+    return results;
+  }
+
+  // RBush's search() and all() only return whole arrays, so this repeats
+  // their node walks
+  *iterateBounds(bounds?: BoundingBox): Generator<T> {
+    const root = this.tree.toJSON() as RBushNode<T>;
+    if (!bounds) {
+      yield* this.iterateNode(root);
+      return;
+    }
+    for (const box of splitBounds(bounds)) {
+      const query = { minX: box.minLng, minY: box.minLat, maxX: box.maxLng, maxY: box.maxLat };
+      if (!intersects(query, root)) continue;
+      const nodesToSearch: Array<RBushNode<T>> = [];
+      let node: RBushNode<T> | undefined = root;
+      while (node) {
+        for (const child of node.children) {
+          if (!intersects(query, child)) continue;
+          if (node.leaf) {
+            yield (child as IndexedItem<T>).item;
+          } else if (contains(query, child)) {
+            yield* this.iterateNode(child as RBushNode<T>);
+          } else {
+            nodesToSearch.push(child as RBushNode<T>);
+          }
+        }
+        node = nodesToSearch.pop();
+      }
+    }
+  }
+
+  // Every item under a node, in all() order
+  private *iterateNode(start: RBushNode<T>): Generator<T> {
+    const nodesToSearch: Array<RBushNode<T>> = [];
+    let node: RBushNode<T> | undefined = start;
+    while (node) {
+      if (node.leaf) {
+        for (const child of node.children) {
+          yield (child as IndexedItem<T>).item;
+        }
+      } else {
+        nodesToSearch.push(...(node.children as Array<RBushNode<T>>));
+      }
+      node = nodesToSearch.pop();
+    }
   }
 
   searchRadius(center: GeoPoint, radiusKm: number): Array<{ item: T; distance: number }> {
-    // Two-phase search: fast bbox filter, then accurate haversine check.
-    // Bbox is rough but uses the spatial index; haversine is accurate but O(n).
-    const bbox = radiusToBoundingBox(center, radiusKm);
+    // Two-phase search: fast bbox filter, then accurate distance check.
+    // Bbox is rough but uses the spatial index; the distance check is accurate but O(n).
+    const bbox = radiusToBoundingBox(center, radiusKm * (1 + this.tolerance));
     const candidates = this.searchBounds(bbox);
 
     const results: Array<{ item: T; distance: number }> = [];
 
     for (const item of candidates) {
-      const distance = haversineDistance(center, item);
+      const distance = this.distanceFn(center, this.getCoordinates(item));
       if (distance <= radiusKm) {
         results.push({ item, distance });
       }
@@ -110,8 +393,99 @@ export class SpatialIndex<T extends GeoPoint> implements ISpatialIndex<T> {
 
     return results;
   }
+
+  searchNearest(
+    center: GeoPoint,
+    k: number,
+    maxDistanceKm: number = Infinity,
+    predicate?: (item: T) => boolean
+  ): Array<{ item: T; distance: number }> {
+    const results: Array<{ item: T; distance: number }> = [];
+    if (k <= 0) {
+      return results;
+    }
+    for (const result of this.iterateNearest(center, maxDistanceKm, predicate)) {
+      results.push(result);
+      if (results.length === k) break;
+    }
+    return results;
+  }
+
+  *iterateNearest(
+    center: GeoPoint,
+    maxDistanceKm: number = Infinity,
+    predicate?: (item: T) => boolean
+  ): Generator<{ item: T; distance: number }> {
+    // Best-first traversal: nodes and items share one queue ordered by distance.
+    // A node's distance is a lower bound for everything inside it, so once an
+    // item reaches the front nothing still queued can be closer. The bound is
+    // spherical, so it's shrunk by the tolerance for non-haversine metrics.
+    const queue = new PriorityQueue<NearestEntry<T>>((a, b) => a.distance - b.distance);
+    let node: RBushNode<T> | undefined = this.tree.toJSON() as RBushNode<T>;
+
+    while (node) {
+      for (const child of node.children) {
+        if (node.leaf) {
+          const { item, minX, minY } = child as IndexedItem<T>;
+          if (predicate && !predicate(item)) continue;
+          const distance = this.distanceFn(center, { lat: minY, lng: minX });
+          if (distance <= maxDistanceKm) {
+            queue.push({ distance, item });
+          }
+        } else {
+          const childNode = child as RBushNode<T>;
+          const bound = distanceToBounds(center, {
+            minLat: childNode.minY,
+            maxLat: childNode.maxY,
+            minLng: childNode.minX,
+            maxLng: childNode.maxX,
+          });
+          const distance = bound / (1 + this.tolerance);
+          if (distance <= maxDistanceKm) {
+            queue.push({ distance, node: childNode });
+          }
+        }
+      }
+
+      while (queue.length > 0 && queue.peek()!.item !== undefined) {
+        const { item, distance } = queue.pop()!;
+        yield { item: item!, distance };
+      }
+
+      node = queue.pop()?.node;
+    }
+  }
 }
 
-export { haversineDistance } from './distance.js';
-export { radiusToBoundingBox, isPointInBounds, kmToLatDegrees, kmToLngDegrees } from './bounds.js';
+export {
+  haversineDistance,
+  vincentyDistance,
+  equirectangularDistance,
+  resolveDistanceMetric,
+  distanceToBounds,
+  toKilometers,
+  fromKilometers,
+  convertDistance,
+  initialBearing,
+  isBearingInSector,
+} from './distance.js';
+export {
+  radiusToBoundingBox,
+  isPointInBounds,
+  splitBounds,
+  normalizeLongitude,
+  kmToLatDegrees,
+  kmToLngDegrees,
+} from './bounds.js';
 export { StaticSpatialIndex } from './StaticSpatialIndex.js';
+export { HybridSpatialIndex } from './HybridSpatialIndex.js';
+export {
+  defaultCoordinates,
+  fieldPathAccessor,
+  resolveCoordinateAccessor,
+  resolveCoordinateSetter,
+} from './coordinates.js';
+export { normalizePolygon, polygonBounds, isPointInPolygon } from './polygon.js';
+export type { PolygonRings } from './polygon.js';
+export { encodeGeohash, decodeGeohash, geohashBounds, geohashNeighbors } from './geohash.js';
+export { tileToBounds, projectToTile, TILE_SIZE } from './tiles.js';
@@ -0,0 +1,95 @@
+import type {
+  GeoPoint,
+  BoundingBox,
+  PolygonInput,
+  GeoJSONPolygon,
+  GeoJSONMultiPolygon,
+} from '../core/types.js';
+
+// A polygon is an outer ring followed by zero or more holes. Rings don't need
+// to be explicitly closed - the last vertex always connects back to the first.
+export type PolygonRings = GeoPoint[][];
+
+function isGeoJSON(input: PolygonInput): input is GeoJSONPolygon | GeoJSONMultiPolygon {
+  return !Array.isArray(input);
+}
+
+// GeoJSON positions are [lng, lat] - the reverse of how most people say them
+function toRing(positions: number[][]): GeoPoint[] {
+  return positions.map(([lng, lat]) => ({ lat: lat!, lng: lng! }));
+}
+
+// Flattens every accepted input shape into a list of polygons so the
+// containment test only has to deal with one representation
+export function normalizePolygon(input: PolygonInput): PolygonRings[] {
+  let polygons: PolygonRings[];
+
+  if (isGeoJSON(input)) {
+    if (input.type === 'Polygon') {
+      polygons = [input.coordinates.map(toRing)];
+    } else {
+      polygons = input.coordinates.map((polygon) => polygon.map(toRing));
+    }
+  } else if (input.length > 0 && Array.isArray(input[0])) {
+    polygons = [input as GeoPoint[][]];
+  } else {
+    polygons = [[input as GeoPoint[]]];
+  }
+
+  for (const rings of polygons) {
+    for (const ring of rings) {
+      if (ring.length < 3) {
+        throw new Error('Polygon rings must have at least 3 points.');
+      }
+    }
+  }
+
+  return polygons;
+}
+
+export function polygonBounds(polygons: PolygonRings[]): BoundingBox {
+  const bounds: BoundingBox = {
+    minLat: Infinity,
+    maxLat: -Infinity,
+    minLng: Infinity,
+    maxLng: -Infinity,
+  };
+
+  // Holes sit inside their outer ring, so only outer rings affect the bbox
+  for (const rings of polygons) {
+    for (const point of rings[0] ?? []) {
+      bounds.minLat = Math.min(bounds.minLat, point.lat);
+      bounds.maxLat = Math.max(bounds.maxLat, point.lat);
+      bounds.minLng = Math.min(bounds.minLng, point.lng);
+      bounds.maxLng = Math.max(bounds.maxLng, point.lng);
+    }
+  }
+
+  return bounds;
+}
+
+// Ray casting: count how many ring edges a ray heading east from the point
+// crosses. An odd count means the point is inside.
+function isPointInRing(point: GeoPoint, ring: GeoPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i]!;
+    const b = ring[j]!;
+    if (
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function isPointInPolygon(point: GeoPoint, polygons: PolygonRings[]): boolean {
+  return polygons.some(
+    ([outer, ...holes]) =>
+      outer !== undefined &&
+      isPointInRing(point, outer) &&
+      !holes.some((hole) => isPointInRing(point, hole))
+  );
+}
@@ -0,0 +1,84 @@
+// Index snapshots: a 16-byte header followed by the index's own payload.
+//
+//   0..3   magic 'GSIX'
+//   4      format version
+//   5      kind (0 = static KDBush, 1 = dynamic RBush)
+//   6..7   reserved
+//   8..11  item count (uint32, little-endian)
+//   12..15 reserved - keeps the payload 8-byte aligned for Float64Array views
+//
+// Items themselves are never stored; snapshots refer to them by position, so
+// the same items must be handed back in the same order when restoring.
+export type SnapshotKind = 'static' | 'dynamic';
+
+export interface Snapshot {
+  kind: SnapshotKind;
+  itemCount: number;
+  payload: ArrayBuffer;
+}
+
+const MAGIC = [0x47, 0x53, 0x49, 0x58];
+const FORMAT_VERSION = 1;
+const HEADER_BYTES = 16;
+const KINDS: SnapshotKind[] = ['static', 'dynamic'];
+
+export function writeSnapshot(
+  kind: SnapshotKind,
+  itemCount: number,
+  payload: ArrayBuffer
+): ArrayBuffer {
+  const buffer = new ArrayBuffer(HEADER_BYTES + payload.byteLength);
+  const bytes = new Uint8Array(buffer);
+  bytes.set(MAGIC, 0);
+  bytes[4] = FORMAT_VERSION;
+  bytes[5] = KINDS.indexOf(kind);
+  new DataView(buffer).setUint32(8, itemCount, true);
+  bytes.set(new Uint8Array(payload), HEADER_BYTES);
+  return buffer;
+}
+
+function snapshotBytes(data: ArrayBuffer | ArrayBufferView): Uint8Array {
+  return ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+}
+
+// Validates and reads the header alone, without touching the payload
+export function readSnapshotHeader(data: ArrayBuffer | ArrayBufferView): Omit<Snapshot, 'payload'> {
+  const bytes = snapshotBytes(data);
+  if (bytes.length < HEADER_BYTES || MAGIC.some((byte, i) => bytes[i] !== byte)) {
+    throw new Error('Not a GeoSearch index snapshot.');
+  }
+  if (bytes[4] !== FORMAT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${bytes[4]} (expected ${FORMAT_VERSION}).`);
+  }
+  const kind = KINDS[bytes[5]!];
+  if (!kind) {
+    throw new Error(`Unknown snapshot kind ${bytes[5]}.`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { kind, itemCount: view.getUint32(8, true) };
+}
+
+// Accepts views too, so a Node Buffer from readFileSync works as-is. The
+// payload is copied out because KDBush can only open a buffer from offset 0.
+export function readSnapshot(data: ArrayBuffer | ArrayBufferView): Snapshot {
+  const header = readSnapshotHeader(data);
+  return { ...header, payload: snapshotBytes(data).slice(HEADER_BYTES).buffer };
+}
+
+export function checkSnapshotItems(
+  snapshot: Snapshot,
+  expected: SnapshotKind,
+  itemCount: number
+): void {
+  if (snapshot.kind !== expected) {
+    throw new Error(`Snapshot is of a ${snapshot.kind} index, not a ${expected} one.`);
+  }
+  if (snapshot.itemCount !== itemCount) {
+    throw new Error(
+      `Snapshot was taken with ${snapshot.itemCount} items but ${itemCount} were given.`
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import type { GeoPoint, BoundingBox, TileCoords } from '../core/types.js';
+import { clampLatitude } from './bounds.js';
+
+// Buffers are given in pixels of a standard 256px slippy-map tile
+export const TILE_SIZE = 256;
+
+// Web Mercator stops here - the square world map's top and bottom edges
+const MAX_MERCATOR_LAT = 85.0511287798066;
+
+function validateTile({ z, x, y }: TileCoords): void {
+  if (!Number.isInteger(z) || z < 0 || z > 30) {
+    throw new Error('Tile zoom must be an integer between 0 and 30.');
+  }
+  const tileCount = 2 ** z;
+  if (
+    !Number.isInteger(x) ||
+    !Number.isInteger(y) ||
+    x < 0 ||
+    y < 0 ||
+    x >= tileCount ||
+    y >= tileCount
+  ) {
+    throw new Error(`Tile ${z}/${x}/${y} is out of range for zoom ${z}.`);
+  }
+}
+
+// Web Mercator tile coordinates (fractional) to longitude / latitude
+function tileXToLng(x: number, z: number): number {
+  return (x / 2 ** z) * 360 - 180;
+}
+
+function tileYToLat(y: number, z: number): number {
+  const n = Math.PI * (1 - (2 * y) / 2 ** z);
+  return (Math.atan(Math.sinh(n)) * 180) / Math.PI;
+}
+
+// Geographic bounds of a z/x/y tile, grown by bufferPx on every side. Buffers
+// past the antimeridian leave longitudes unnormalized (e.g. minLng < -180),
+// which the bounds helpers treat as a box wrapping around.
+export function tileToBounds(z: number, x: number, y: number, bufferPx: number = 0): BoundingBox {
+  validateTile({ z, x, y });
+  const buffer = bufferPx / TILE_SIZE;
+  return {
+    minLat: clampLatitude(tileYToLat(y + 1 + buffer, z)),
+    maxLat: clampLatitude(tileYToLat(y - buffer, z)),
+    minLng: tileXToLng(x - buffer, z),
+    maxLng: tileXToLng(x + 1 + buffer, z),
+  };
+}
+
+// Position of a point inside a tile, in tile-local units where 0..extent
+// spans the tile. Points in the buffer land slightly outside that range.
+export function projectToTile(
+  point: GeoPoint,
+  tile: TileCoords,
+  extent: number
+): { x: number; y: number } {
+  const tileCount = 2 ** tile.z;
+  const lat = Math.max(-MAX_MERCATOR_LAT, Math.min(MAX_MERCATOR_LAT, point.lat));
+  const sin = Math.sin((lat * Math.PI) / 180);
+  const worldY = 0.5 - (0.25 * Math.log((1 + sin) / (1 - sin))) / Math.PI;
+
+  // Take the copy of the point nearest the tile's center, so buffered tiles
+  // at the antimeridian see their neighbors on the far side of the map
+  let tileX = ((point.lng + 180) / 360) * tileCount - tile.x;
+  if (tileX - 0.5 > tileCount / 2) tileX -= tileCount;
+  else if (tileX - 0.5 < -tileCount / 2) tileX += tileCount;
+
+  return {
+    x: Math.round(tileX * extent),
+    y: Math.round((worldY * tileCount - tile.y) * extent),
+  };
+}
@@ -0,0 +1,88 @@
+// Protobuf wire types used by the vector tile schema
+export const WIRE_VARINT = 0;
+export const WIRE_FIXED64 = 1;
+export const WIRE_BYTES = 2;
+
+// Just enough of a protobuf encoder for Mapbox Vector Tiles: varints, doubles,
+// strings and length-delimited sub-messages. The buffer doubles as it fills.
+export class PbfWriter {
+  private buffer: Uint8Array;
+  private view: DataView;
+  private pos = 0;
+
+  constructor(initialSize: number = 1024) {
+    this.buffer = new Uint8Array(initialSize);
+    this.view = new DataView(this.buffer.buffer);
+  }
+
+  private ensure(bytes: number): void {
+    if (this.pos + bytes <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.pos + bytes) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.buffer.subarray(0, this.pos));
+    this.buffer = grown;
+    this.view = new DataView(grown.buffer);
+  }
+
+  writeTag(field: number, wireType: number): void {
+    this.writeVarint((field << 3) | wireType);
+  }
+
+  // Non-negative integers up to 2^53. Bitwise ops only cover 32 bits, so the
+  // high part is peeled off with division.
+  writeVarint(value: number): void {
+    this.ensure(10);
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.buffer[this.pos++] = remaining % 0x80 | 0x80;
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.buffer[this.pos++] = remaining;
+  }
+
+  // Zigzag maps signed to unsigned so small negatives stay short
+  writeSVarint(value: number): void {
+    this.writeVarint(value < 0 ? -value * 2 - 1 : value * 2);
+  }
+
+  writeDouble(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.pos, value, true);
+    this.pos += 8;
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    this.writeVarint(bytes.length);
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.pos);
+    this.pos += bytes.length;
+  }
+
+  writeStringField(field: number, value: string): void {
+    this.writeTag(field, WIRE_BYTES);
+    this.writeBytes(new TextEncoder().encode(value));
+  }
+
+  writeVarintField(field: number, value: number): void {
+    this.writeTag(field, WIRE_VARINT);
+    this.writeVarint(value);
+  }
+
+  writeMessageField(field: number, message: PbfWriter): void {
+    this.writeTag(field, WIRE_BYTES);
+    this.writeBytes(message.finish());
+  }
+
+  // Packed repeated uint32 - one length prefix, then the raw varints
+  writePackedVarintField(field: number, values: number[]): void {
+    if (values.length === 0) return;
+    const packed = new PbfWriter(values.length * 2);
+    for (const value of values) packed.writeVarint(value);
+    this.writeMessageField(field, packed);
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.pos);
+  }
+}
@@ -0,0 +1,142 @@
+import type { GeoPoint, TileCoords, VectorTileOptions } from '../core/types.js';
+import { projectToTile } from '../spatial/tiles.js';
+import { PbfWriter, WIRE_VARINT, WIRE_FIXED64 } from './PbfWriter.js';
+
+// Field numbers from the Mapbox Vector Tile 2.1 schema (vector_tile.proto)
+const TILE_LAYERS = 3;
+const LAYER_NAME = 1;
+const LAYER_FEATURES = 2;
+const LAYER_KEYS = 3;
+const LAYER_VALUES = 4;
+const LAYER_EXTENT = 5;
+const LAYER_VERSION = 15;
+const FEATURE_TAGS = 2;
+const FEATURE_TYPE = 3;
+const FEATURE_GEOMETRY = 4;
+const VALUE_STRING = 1;
+const VALUE_DOUBLE = 3;
+const VALUE_UINT = 5;
+const VALUE_SINT = 6;
+const VALUE_BOOL = 7;
+
+const GEOM_POINT = 1;
+// MoveTo command (id 1) repeated once: (count << 3) | id
+const MOVE_TO_ONE = (1 << 3) | 1;
+
+type TileValue = string | number | boolean;
+
+// Encodes points as a single-layer MVT. Keys and values are deduplicated into
+// the layer's tables as features are added, as the spec expects.
+export class VectorTileEncoder<T> {
+  private readonly tile: TileCoords;
+  private readonly layerName: string;
+  private readonly extent: number;
+  private readonly properties: VectorTileOptions<T>['properties'];
+  private readonly features: PbfWriter[] = [];
+  private readonly keys = new Map<string, number>();
+  private readonly values = new Map<string, { index: number; value: TileValue }>();
+
+  constructor(tile: TileCoords, options: VectorTileOptions<T> = {}) {
+    this.tile = tile;
+    this.layerName = options.layerName ?? 'points';
+    this.extent = options.extent ?? 4096;
+    this.properties = options.properties;
+  }
+
+  private keyIndex(key: string): number {
+    let index = this.keys.get(key);
+    if (index === undefined) {
+      index = this.keys.size;
+      this.keys.set(key, index);
+    }
+    return index;
+  }
+
+  // Typed lookup key, so the string '1' and the number 1 stay separate values
+  private valueIndex(value: TileValue): number {
+    const lookup = `${typeof value}:${String(value)}`;
+    let entry = this.values.get(lookup);
+    if (!entry) {
+      entry = { index: this.values.size, value };
+      this.values.set(lookup, entry);
+    }
+    return entry.index;
+  }
+
+  private itemProperties(item: T): Record<string, unknown> {
+    const { properties } = this;
+    if (typeof properties === 'function') {
+      return properties(item);
+    }
+    const fields = properties ?? [];
+    const result: Record<string, unknown> = {};
+    for (const field of fields) {
+      result[String(field)] = item[field];
+    }
+    return result;
+  }
+
+  add(item: T, point: GeoPoint): void {
+    const tags: number[] = [];
+    for (const [key, raw] of Object.entries(this.itemProperties(item))) {
+      // MVT values are scalars. Skip missing values and flatten the rest to JSON.
+      if (raw === undefined || raw === null) continue;
+      const value =
+        typeof raw === 'string' || typeof raw === 'number' || typeof raw === 'boolean'
+          ? raw
+          : JSON.stringify(raw);
+      tags.push(this.keyIndex(key), this.valueIndex(value));
+    }
+
+    const { x, y } = projectToTile(point, this.tile, this.extent);
+    const feature = new PbfWriter(32);
+    feature.writePackedVarintField(FEATURE_TAGS, tags);
+    feature.writeVarintField(FEATURE_TYPE, GEOM_POINT);
+    const geometry = new PbfWriter(16);
+    geometry.writeVarint(MOVE_TO_ONE);
+    geometry.writeSVarint(x);
+    geometry.writeSVarint(y);
+    feature.writeMessageField(FEATURE_GEOMETRY, geometry);
+    this.features.push(feature);
+  }
+
+  private encodeValue(value: TileValue): PbfWriter {
+    const message = new PbfWriter(16);
+    if (typeof value === 'string') {
+      message.writeStringField(VALUE_STRING, value);
+    } else if (typeof value === 'boolean') {
+      message.writeVarintField(VALUE_BOOL, value ? 1 : 0);
+    } else if (Number.isSafeInteger(value)) {
+      if (value >= 0) {
+        message.writeVarintField(VALUE_UINT, value);
+      } else {
+        message.writeTag(VALUE_SINT, WIRE_VARINT);
+        message.writeSVarint(value);
+      }
+    } else {
+      message.writeTag(VALUE_DOUBLE, WIRE_FIXED64);
+      message.writeDouble(value);
+    }
+    return message;
+  }
+
+  finish(): Uint8Array {
+    const layer = new PbfWriter();
+    layer.writeVarintField(LAYER_VERSION, 2);
+    layer.writeStringField(LAYER_NAME, this.layerName);
+    for (const feature of this.features) {
+      layer.writeMessageField(LAYER_FEATURES, feature);
+    }
+    for (const key of this.keys.keys()) {
+      layer.writeStringField(LAYER_KEYS, key);
+    }
+    for (const { value } of this.values.values()) {
+      layer.writeMessageField(LAYER_VALUES, this.encodeValue(value));
+    }
+    layer.writeVarintField(LAYER_EXTENT, this.extent);
+
+    const tile = new PbfWriter();
+    tile.writeMessageField(TILE_LAYERS, layer);
+    return tile.finish();
+  }
+}
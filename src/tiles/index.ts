@@ -0,0 +1,2 @@
+export { PbfWriter } from './PbfWriter.js';
+export { VectorTileEncoder } from './VectorTileEncoder.js';
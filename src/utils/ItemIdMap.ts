@@ -0,0 +1,81 @@
+import type { GeoSearchOptions, ItemId } from '../core/types.js';
+import { getPath } from '../spatial/coordinates.js';
+
+export function resolveIdAccessor<T>(
+  options: Pick<GeoSearchOptions<T>, 'idField' | 'getId'> = {}
+): ((item: T) => ItemId) | undefined {
+  const { idField, getId } = options;
+  if (idField !== undefined && getId) {
+    throw new Error('Use either idField or getId, not both.');
+  }
+  if (idField !== undefined) {
+    const path = idField.split('.');
+    return (item) => getPath(item, path) as ItemId;
+  }
+  return getId;
+}
+
+// The indexed item for each id. Spatial indexes track items by reference, so
+// this is what lets a re-fetched copy of a record find the original.
+export class ItemIdMap<T> {
+  private readonly items = new Map<ItemId, T>();
+  private readonly getId: (item: T) => ItemId;
+
+  constructor(getId: (item: T) => ItemId) {
+    this.getId = getId;
+  }
+
+  idOf(item: T): ItemId {
+    const id = this.getId(item);
+    if (typeof id !== 'string' && typeof id !== 'number') {
+      throw new Error(`Item id must be a string or number, got ${String(id)}.`);
+    }
+    return id;
+  }
+
+  get(id: ItemId): T | undefined {
+    return this.items.get(id);
+  }
+
+  has(id: ItemId): boolean {
+    return this.items.has(id);
+  }
+
+  set(item: T): void {
+    this.items.set(this.idOf(item), item);
+  }
+
+  // Only forgets the id if it still points at this item
+  delete(item: T): void {
+    const id = this.idOf(item);
+    if (this.items.get(id) === item) {
+      this.items.delete(id);
+    }
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  // Drops items whose id repeats later in the list, so the last one wins. The
+  // array itself comes back when there are no repeats.
+  unique(items: T[]): T[] {
+    const byId = new Map<ItemId, T>();
+    for (const item of items) {
+      byId.set(this.idOf(item), item);
+    }
+    return byId.size === items.length ? items : [...byId.values()];
+  }
+
+  // Throws on the first id that's already taken, or repeats within `items`
+  assertUnique(items: T[]): void {
+    const seen = new Set<ItemId>();
+    for (const item of items) {
+      const id = this.idOf(item);
+      if (this.items.has(id) || seen.has(id)) {
+        throw new Error(`Duplicate item id '${id}'. Use upsert() or duplicateIds: 'replace'.`);
+      }
+      seen.add(id);
+    }
+  }
+}
@@ -1,13 +1,23 @@
 // Simple LRU cache using Map's insertion order guarantee.
 // When we access an item, we delete and re-insert to move it to the end.
 // The first item is always the oldest (least recently used).
+// Optionally bounded by total weight too, e.g. bytes, via `weigh`.
 export class LRUCache<K, V> {
   private cache: Map<K, V>;
   private readonly maxSize: number;
+  private readonly maxWeight: number;
+  private readonly weigh: ((value: V) => number) | undefined;
+  private weight = 0;
+  private evicted = 0;
 
-  constructor(maxSize: number = 100) {
+  constructor(
+    maxSize: number = 100,
+    options: { maxWeight?: number; weigh?: (value: V) => number } = {}
+  ) {
     this.cache = new Map();
     this.maxSize = maxSize;
+    this.maxWeight = options.maxWeight ?? Infinity;
+    this.weigh = options.weigh;
   }
 
   get(key: K): V | undefined {
@@ -21,32 +31,62 @@ export class LRUCache<K, V> {
   }
 
   set(key: K, value: V): void {
-    if (this.cache.has(key)) {
-      this.cache.delete(key);
-    }
+    this.delete(key);
 
-    // Evict oldest entry if at capacity
-    if (this.cache.size >= this.maxSize) {
-      const oldestKey = this.cache.keys().next().value;
-      if (oldestKey !== undefined) {
-        this.cache.delete(oldestKey);
-      }
+    // A value heavier than the whole budget would only flush everything else
+    const weight = this.weigh?.(value) ?? 0;
+    if (weight > this.maxWeight) {
+      this.evicted++;
+      return;
     }
 
     this.cache.set(key, value);
+    this.weight += weight;
+
+    // Evict oldest entries until back within capacity
+    while (this.cache.size > this.maxSize || this.weight > this.maxWeight) {
+      const oldestKey = this.cache.keys().next().value as K;
+      this.delete(oldestKey);
+      this.evicted++;
+    }
   }
 
   has(key: K): boolean {
     return this.cache.has(key);
   }
 
+  delete(key: K): boolean {
+    if (!this.cache.has(key)) {
+      return false;
+    }
+    if (this.weigh) {
+      this.weight -= this.weigh(this.cache.get(key)!);
+    }
+    return this.cache.delete(key);
+  }
+
+  // Oldest first. Deleting the current entry while iterating is safe.
+  entries(): IterableIterator<[K, V]> {
+    return this.cache.entries();
+  }
+
   clear(): void {
     this.cache.clear();
+    this.weight = 0;
   }
 
   get size(): number {
     return this.cache.size;
   }
+
+  get totalWeight(): number {
+    return this.weight;
+  }
+
+  // Entries dropped to stay within maxSize or maxWeight
+  get evictions(): number {
+    return this.evicted;
+  }
 }
 
 // Sort object keys recursively for deterministic JSON serialization.
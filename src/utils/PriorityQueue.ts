@@ -0,0 +1,67 @@
+// Binary min-heap keyed by a comparator. Used for best-first tree traversal
+// where we repeatedly need the closest remaining node or item.
+export class PriorityQueue<T> {
+  private heap: T[];
+  private readonly compare: (a: T, b: T) => number;
+
+  constructor(compare: (a: T, b: T) => number) {
+    this.heap = [];
+    this.compare = compare;
+  }
+
+  push(value: T): void {
+    this.heap.push(value);
+    this.siftUp(this.heap.length - 1);
+  }
+
+  pop(): T | undefined {
+    if (this.heap.length === 0) {
+      return undefined;
+    }
+    const top = this.heap[0];
+    const last = this.heap.pop()!;
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  peek(): T | undefined {
+    return this.heap[0];
+  }
+
+  get length(): number {
+    return this.heap.length;
+  }
+
+  private siftUp(pos: number): void {
+    const heap = this.heap;
+    const value = heap[pos]!;
+    while (pos > 0) {
+      const parent = (pos - 1) >> 1;
+      const parentValue = heap[parent]!;
+      if (this.compare(value, parentValue) >= 0) break;
+      heap[pos] = parentValue;
+      pos = parent;
+    }
+    heap[pos] = value;
+  }
+
+  private siftDown(pos: number): void {
+    const heap = this.heap;
+    const half = heap.length >> 1;
+    const value = heap[pos]!;
+    while (pos < half) {
+      let child = 2 * pos + 1;
+      const right = child + 1;
+      if (right < heap.length && this.compare(heap[right]!, heap[child]!) < 0) {
+        child = right;
+      }
+      if (this.compare(heap[child]!, value) >= 0) break;
+      heap[pos] = heap[child]!;
+      pos = child;
+    }
+    heap[pos] = value;
+  }
+}
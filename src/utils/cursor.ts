@@ -0,0 +1,62 @@
+// Keyset cursors: the last row's sort key plus a signature of the sort order
+// it was taken under, as base64url JSON. Opaque to callers, but not signed -
+// a tampered cursor can only change which page comes back.
+export interface CursorPayload {
+  sort: string;
+  key: unknown[];
+}
+
+function toBase64Url(text: string): string {
+  // btoa only takes Latin-1, so go through UTF-8 bytes for string sort keys
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+export function encodeCursor(payload: CursorPayload): string {
+  return toBase64Url(JSON.stringify(payload));
+}
+
+export function decodeCursor(cursor: string): CursorPayload {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(cursor));
+  } catch {
+    throw new Error('Invalid cursor: could not be decoded.');
+  }
+
+  const { sort, key } = (payload ?? {}) as Partial<CursorPayload>;
+  if (typeof sort !== 'string' || !Array.isArray(key)) {
+    throw new Error('Invalid cursor: missing sort key.');
+  }
+  return { sort, key };
+}
+
+// Compares two sort keys position by position. Nullish values sort last in
+// ascending order, matching how missing distances sort as Infinity.
+export function compareSortKeys(a: unknown[], b: unknown[], descending: boolean[]): number {
+  for (let i = 0; i < a.length; i++) {
+    const aVal = a[i];
+    const bVal = b[i];
+    if (aVal === bVal || (aVal == null && bVal == null)) continue;
+
+    let comparison: number;
+    if (aVal == null) {
+      comparison = 1;
+    } else if (bVal == null) {
+      comparison = -1;
+    } else {
+      comparison = (aVal as number) < (bVal as number) ? -1 : 1;
+    }
+    return descending[i] ? -comparison : comparison;
+  }
+  return 0;
+}
@@ -0,0 +1,284 @@
+import type {
+  GeoSearchOptions,
+  RemoteExecuteOptions,
+  RemoteQueryResult,
+  WithDistance,
+  WorkerEndpoint,
+} from '../core/types.js';
+import type { QueryBuilder } from '../core/QueryBuilder.js';
+import {
+  listen,
+  listenForFailure,
+  type QueryStep,
+  type QueryStepMethod,
+  type WorkerRequest,
+  type WorkerResponse,
+} from './protocol.js';
+
+type RunQuery = (steps: QueryStep[], options: RemoteExecuteOptions) => Promise<unknown>;
+
+type StepArgs<
+  T extends object,
+  HasDistance extends boolean,
+  M extends QueryStepMethod,
+> = Parameters<QueryBuilder<T, HasDistance>[M]>;
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+function cancelledError(): Error {
+  const error = new Error('Query was cancelled.');
+  error.name = 'AbortError';
+  return error;
+}
+
+// Mirrors QueryBuilder's chain, but only records the steps. execute() ships
+// them to the worker, which replays them against its own QueryBuilder.
+export class RemoteQuery<T extends object, HasDistance extends boolean = false> {
+  private readonly run: RunQuery;
+  private readonly steps: QueryStep[];
+
+  constructor(run: RunQuery, steps: QueryStep[] = []) {
+    this.run = run;
+    this.steps = steps;
+  }
+
+  private step<NewHasDistance extends boolean = HasDistance>(
+    method: QueryStepMethod,
+    args: unknown[]
+  ): RemoteQuery<T, NewHasDistance> {
+    return new RemoteQuery<T, NewHasDistance>(this.run, [...this.steps, { method, args }]);
+  }
+
+  near(...args: StepArgs<T, HasDistance, 'near'>): RemoteQuery<T, true> {
+    return this.step<true>('near', args);
+  }
+
+  nearest(...args: StepArgs<T, HasDistance, 'nearest'>): RemoteQuery<T, true> {
+    return this.step<true>('nearest', args);
+  }
+
+  withinBounds(...args: StepArgs<T, HasDistance, 'withinBounds'>): RemoteQuery<T, HasDistance> {
+    return this.step('withinBounds', args);
+  }
+
+  withinPolygon(...args: StepArgs<T, HasDistance, 'withinPolygon'>): RemoteQuery<T, HasDistance> {
+    return this.step('withinPolygon', args);
+  }
+
+  withinGeohash(...args: StepArgs<T, HasDistance, 'withinGeohash'>): RemoteQuery<T, HasDistance> {
+    return this.step('withinGeohash', args);
+  }
+
+  withinTile(...args: StepArgs<T, HasDistance, 'withinTile'>): RemoteQuery<T, HasDistance> {
+    return this.step('withinTile', args);
+  }
+
+  where(...args: StepArgs<T, HasDistance, 'where'>): RemoteQuery<T, HasDistance> {
+    return this.step('where', args);
+  }
+
+  sortBy(...args: StepArgs<T, HasDistance, 'sortBy'>): RemoteQuery<T, HasDistance> {
+    return this.step('sortBy', args);
+  }
+
+  limit(count: number): RemoteQuery<T, HasDistance> {
+    return this.step('limit', [count]);
+  }
+
+  offset(count: number): RemoteQuery<T, HasDistance> {
+    return this.step('offset', [count]);
+  }
+
+  after(cursor: string): RemoteQuery<T, HasDistance> {
+    return this.step('after', [cursor]);
+  }
+
+  async execute(
+    options: RemoteExecuteOptions = {}
+  ): Promise<HasDistance extends true ? WithDistance<T>[] : T[]> {
+    return (await this.executeWithMetadata(options)).items;
+  }
+
+  executeWithMetadata(
+    options: RemoteExecuteOptions = {}
+  ): Promise<RemoteQueryResult<T, HasDistance>> {
+    return this.run(this.steps, options) as Promise<RemoteQueryResult<T, HasDistance>>;
+  }
+}
+
+// The main-thread side: talks to a GeoSearchWorker over `endpoint` (a
+// browser Worker, or a Node worker_threads Worker). Requests are answered in
+// the order they're sent. Items cross the thread boundary by structured
+// clone, so results are copies, never the caller's own objects. A worker
+// error rejects whatever is pending; once a Node Worker has exited, so does
+// every later request.
+export class GeoSearchClient<T extends object> {
+  private readonly endpoint: WorkerEndpoint;
+  private readonly pending = new Map<number, PendingRequest>();
+  // Latest in-flight query per channel, cancelled when the next one starts
+  private readonly channels = new Map<string, number>();
+  private nextId = 0;
+  private terminated = false;
+  // Set once the worker has exited on its own
+  private failure: Error | null = null;
+
+  constructor(endpoint: WorkerEndpoint) {
+    this.endpoint = endpoint;
+    listen(endpoint, (message) => this.receive(message as WorkerResponse));
+    listenForFailure(endpoint, (error, fatal) => {
+      if (fatal) this.failure ??= error;
+      this.rejectPending(error);
+    });
+  }
+
+  // Options must be cloneable - set accessors and distance functions on the
+  // GeoSearchWorker instead. Resolves to the number of items indexed.
+  load(items: T[], options?: GeoSearchOptions<T>): Promise<number> {
+    return this.request((id) => ({ type: 'load', id, items, options })) as Promise<number>;
+  }
+
+  // Opens a serialize() snapshot in the worker. An ArrayBuffer is transferred
+  // rather than copied, which leaves it detached (empty) on this side.
+  restore(
+    snapshot: ArrayBuffer | ArrayBufferView,
+    items: T[],
+    options?: GeoSearchOptions<T>
+  ): Promise<number> {
+    const transfer = snapshot instanceof ArrayBuffer ? [snapshot] : [];
+    return this.request(
+      (id) => ({ type: 'restore', id, snapshot, items, options }),
+      transfer
+    ) as Promise<number>;
+  }
+
+  addMany(items: T[]): Promise<number> {
+    return this.request((id) => ({ type: 'addMany', id, items })) as Promise<number>;
+  }
+
+  query(): RemoteQuery<T, false> {
+    return new RemoteQuery<T, false>((steps, options) =>
+      this.request((id) => ({ type: 'query', id, steps }), [], options)
+    );
+  }
+
+  near(...args: StepArgs<T, false, 'near'>): RemoteQuery<T, true> {
+    return this.query().near(...args);
+  }
+
+  nearest(...args: StepArgs<T, false, 'nearest'>): RemoteQuery<T, true> {
+    return this.query().nearest(...args);
+  }
+
+  withinBounds(...args: StepArgs<T, false, 'withinBounds'>): RemoteQuery<T, false> {
+    return this.query().withinBounds(...args);
+  }
+
+  withinPolygon(...args: StepArgs<T, false, 'withinPolygon'>): RemoteQuery<T, false> {
+    return this.query().withinPolygon(...args);
+  }
+
+  where(...args: StepArgs<T, false, 'where'>): RemoteQuery<T, false> {
+    return this.query().where(...args);
+  }
+
+  sortBy(...args: StepArgs<T, false, 'sortBy'>): RemoteQuery<T, false> {
+    return this.query().sortBy(...args);
+  }
+
+  // Rejects everything still pending and shuts the worker (or port) down
+  terminate(): void {
+    if (this.terminated) return;
+    this.terminated = true;
+    this.rejectPending(new Error('GeoSearchClient was terminated.'));
+    if (this.endpoint.terminate) {
+      void this.endpoint.terminate();
+    } else {
+      this.endpoint.close?.();
+    }
+  }
+
+  private request(
+    build: (id: number) => WorkerRequest<T>,
+    transfer: ArrayBuffer[] = [],
+    options: RemoteExecuteOptions = {}
+  ): Promise<unknown> {
+    const { signal, channel } = options;
+    if (this.terminated) {
+      return Promise.reject(new Error('GeoSearchClient was terminated.'));
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    if (signal?.aborted) {
+      return Promise.reject(cancelledError());
+    }
+
+    const id = this.nextId++;
+    if (channel !== undefined) {
+      const previous = this.channels.get(channel);
+      if (previous !== undefined) this.cancel(previous);
+      this.channels.set(channel, id);
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => this.cancel(id);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(id, {
+        resolve,
+        reject,
+        cleanup: () => {
+          signal?.removeEventListener('abort', onAbort);
+          if (channel !== undefined && this.channels.get(channel) === id) {
+            this.channels.delete(channel);
+          }
+        },
+      });
+
+      try {
+        this.endpoint.postMessage(build(id), transfer);
+      } catch (error) {
+        // DataCloneError for items or options holding functions
+        this.settle(id)?.reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  private rejectPending(error: Error): void {
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id)?.reject(error);
+    }
+  }
+
+  private settle(id: number): PendingRequest | undefined {
+    const request = this.pending.get(id);
+    if (request) {
+      this.pending.delete(id);
+      request.cleanup();
+    }
+    return request;
+  }
+
+  // Rejects straight away; the worker skips the query if it hasn't started,
+  // and a late answer is ignored since the id is no longer pending
+  private cancel(id: number): void {
+    const request = this.settle(id);
+    if (!request) return;
+    request.reject(cancelledError());
+    const message: WorkerRequest<T> = { type: 'cancel', id };
+    this.endpoint.postMessage(message);
+  }
+
+  private receive(response: WorkerResponse): void {
+    const request = this.settle(response.id);
+    if (!request) return;
+    if (response.type === 'error') {
+      request.reject(new Error(response.message));
+    } else {
+      request.resolve(response.result);
+    }
+  }
+}
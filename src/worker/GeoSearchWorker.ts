@@ -0,0 +1,99 @@
+import type { GeoSearchOptions, WorkerEndpoint } from '../core/types.js';
+import { GeoSearch } from '../core/GeoSearch.js';
+import type { QueryBuilder } from '../core/QueryBuilder.js';
+import {
+  QUERY_STEPS,
+  listen,
+  type QueryStep,
+  type WorkerRequest,
+  type WorkerResponse,
+} from './protocol.js';
+
+function replay<T extends object>(
+  query: QueryBuilder<T, boolean>,
+  steps: QueryStep[]
+): QueryBuilder<T, boolean> {
+  return steps.reduce((current, { method, args }) => {
+    if (!QUERY_STEPS.includes(method)) {
+      throw new Error(`Unsupported query step '${String(method)}'.`);
+    }
+    const step = current[method] as (...stepArgs: unknown[]) => QueryBuilder<T, boolean>;
+    return step.apply(current, args);
+  }, query);
+}
+
+// The worker side: owns the GeoSearch and answers a GeoSearchClient on the
+// other end of `endpoint` (`self` in a browser worker, parentPort in Node).
+// Options that can't be cloned - coordinate accessors, distance functions -
+// go here; load() options from the client are merged over them.
+export class GeoSearchWorker<T extends object> {
+  private search: GeoSearch<T>;
+  private readonly endpoint: WorkerEndpoint;
+  private readonly options: GeoSearchOptions<T>;
+  private readonly queue: Array<WorkerRequest<T>> = [];
+  private scheduled = false;
+
+  constructor(endpoint: WorkerEndpoint, options: GeoSearchOptions<T> = {}) {
+    this.endpoint = endpoint;
+    this.options = options;
+    this.search = new GeoSearch<T>([], options);
+    listen(endpoint, (message) => this.receive(message as WorkerRequest<T>));
+  }
+
+  private receive(request: WorkerRequest<T>): void {
+    if (request.type === 'cancel') {
+      const index = this.queue.findIndex((queued) => queued.id === request.id);
+      if (index !== -1) this.queue.splice(index, 1);
+      return;
+    }
+    this.queue.push(request);
+    this.schedule();
+  }
+
+  // One request per macrotask, so a cancel that arrives while a query is
+  // running can still drop the superseded queries queued behind it
+  private schedule(): void {
+    if (this.scheduled || this.queue.length === 0) return;
+    this.scheduled = true;
+    setTimeout(() => {
+      this.scheduled = false;
+      const request = this.queue.shift();
+      if (request) this.respond(request);
+      this.schedule();
+    }, 0);
+  }
+
+  private respond(request: WorkerRequest<T>): void {
+    let response: WorkerResponse;
+    try {
+      response = { type: 'result', id: request.id, result: this.handle(request) };
+      this.endpoint.postMessage(response);
+    } catch (error) {
+      // Also covers results that can't be cloned back to the client
+      const message = error instanceof Error ? error.message : String(error);
+      response = { type: 'error', id: request.id, message };
+      this.endpoint.postMessage(response);
+    }
+  }
+
+  private handle(request: WorkerRequest<T>): unknown {
+    switch (request.type) {
+      case 'load':
+        this.search = new GeoSearch<T>(request.items, { ...this.options, ...request.options });
+        return this.search.size;
+      case 'restore':
+        this.search = GeoSearch.deserialize(request.snapshot, request.items, {
+          ...this.options,
+          ...request.options,
+        });
+        return this.search.size;
+      case 'addMany':
+        this.search.addMany(request.items);
+        return this.search.size;
+      case 'query':
+        return replay(this.search.query(), request.steps).executeWithMetadata();
+      case 'cancel':
+        return undefined;
+    }
+  }
+}
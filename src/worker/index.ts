@@ -0,0 +1,2 @@
+export { GeoSearchWorker } from './GeoSearchWorker.js';
+export { GeoSearchClient, RemoteQuery } from './GeoSearchClient.js';
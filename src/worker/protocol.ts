@@ -0,0 +1,74 @@
+import type { GeoSearchOptions, WorkerEndpoint } from '../core/types.js';
+
+// QueryBuilder methods a remote query can replay. Everything here takes plain,
+// cloneable arguments; score() and the terminals stay on the worker side.
+export const QUERY_STEPS = [
+  'near',
+  'nearest',
+  'withinBounds',
+  'withinPolygon',
+  'withinGeohash',
+  'withinTile',
+  'where',
+  'sortBy',
+  'limit',
+  'offset',
+  'after',
+] as const;
+
+export type QueryStepMethod = (typeof QUERY_STEPS)[number];
+
+export interface QueryStep {
+  method: QueryStepMethod;
+  args: unknown[];
+}
+
+export type WorkerRequest<T> =
+  | { type: 'load'; id: number; items: T[]; options?: GeoSearchOptions<T> }
+  | {
+      type: 'restore';
+      id: number;
+      snapshot: ArrayBuffer | ArrayBufferView;
+      items: T[];
+      options?: GeoSearchOptions<T>;
+    }
+  | { type: 'addMany'; id: number; items: T[] }
+  | { type: 'query'; id: number; steps: QueryStep[] }
+  | { type: 'cancel'; id: number };
+
+export type WorkerResponse =
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; message: string };
+
+// Node ports and Workers deliver the message itself through on(); browsers
+// wrap it in a MessageEvent. Node ports have addEventListener() too, so on()
+// is checked first.
+export function listen(endpoint: WorkerEndpoint, handler: (message: unknown) => void): void {
+  if ('on' in endpoint) {
+    endpoint.on('message', handler);
+  } else {
+    endpoint.addEventListener('message', (event) => handler(event.data));
+  }
+}
+
+// Calls back when requests in flight can no longer be answered. `fatal` is
+// set once the worker is gone for good, so later requests can't be either.
+export function listenForFailure(
+  endpoint: WorkerEndpoint,
+  handler: (error: Error, fatal: boolean) => void
+): void {
+  if ('on' in endpoint) {
+    endpoint.on('error', (error) => handler(error, false));
+    endpoint.on('messageerror', (error) => handler(error, false));
+    endpoint.on('exit', (exitCode) =>
+      handler(new Error(`Worker exited with code ${exitCode}.`), true)
+    );
+  } else {
+    endpoint.addEventListener('error', (event) =>
+      handler(new Error(event.message ?? 'Worker failed.'), false)
+    );
+    endpoint.addEventListener('messageerror', () =>
+      handler(new Error('Worker message could not be deserialized.'), false)
+    );
+  }
+}
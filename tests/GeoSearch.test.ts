@@ -1,6 +1,41 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { GeoSearch, haversineDistance } from '../src/index.js';
-import type { GeoPoint } from '../src/index.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MessageChannel, Worker } from 'node:worker_threads';
+import RBush from 'rbush';
+import KDBush from 'kdbush';
+import {
+  GeoSearch,
+  haversineDistance,
+  vincentyDistance,
+  equirectangularDistance,
+  convertDistance,
+  toKilometers,
+  fromKilometers,
+  encodeGeohash,
+  geohashBounds,
+  decodeGeohash,
+  geohashNeighbors,
+  isPointInBounds,
+  initialBearing,
+  isBearingInSector,
+  tileToBounds,
+  projectToTile,
+  GeoSearchWorker,
+  GeoSearchClient,
+  GeoFenceSet,
+  LRUCacheStore,
+} from '../src/index.js';
+import type {
+  GeoPoint,
+  WithBearing,
+  WithDistance,
+  LiveQueryDelta,
+  GeoFence,
+  GeoFenceEvent,
+  GeoJSONFeatureCollection,
+  InvalidGeoJSONFeature,
+  FilterOperator,
+  WorkerEndpoint,
+} from '../src/index.js';
 
 interface TestLocation extends GeoPoint {
   id: string;
@@ -484,6 +519,3001 @@ describe('caching', () => {
   });
 });
 
+describe('region-aware cache invalidation', () => {
+  const gymAt = (id: string, lat: number, lng: number): TestLocation => ({
+    id,
+    name: `Gym ${id}`,
+    lat,
+    lng,
+    rating: 4,
+    tags: [],
+    price: 40,
+  });
+  const farAway = gymAt('far', 53.5461, -113.4938); // Edmonton
+  const nearCenter = gymAt('near', 51.046, -114.07);
+
+  function cachedWith(queries: (search: GeoSearch<TestLocation>) => void) {
+    const search = GeoSearch.from(
+      testGyms.map((gym) => ({ ...gym })),
+      { cache: true, idField: 'id' }
+    );
+    queries(search);
+    return search;
+  }
+
+  it('should keep entries whose region a mutation misses', () => {
+    const search = cachedWith((s) => {
+      s.near(CALGARY_CENTER, 2).execute();
+      s.withinBounds({ minLat: 51.03, maxLat: 51.06, minLng: -114.1, maxLng: -114.05 }).execute();
+    });
+
+    search.add(farAway);
+    expect(search.cacheSize).toBe(2);
+    expect(search.near(CALGARY_CENTER, 2).executeWithMetadata().metadata.cached).toBe(true);
+
+    search.add(nearCenter);
+    expect(search.cacheSize).toBe(0);
+  });
+
+  it('should evict queries without a spatial filter on any mutation', () => {
+    const search = cachedWith((s) => s.where('rating', 'greaterThan', 4).execute());
+    search.add(farAway);
+    expect(search.cacheSize).toBe(0);
+  });
+
+  it('should evict on removal inside the region', () => {
+    const search = cachedWith((s) => s.near(CALGARY_CENTER, 2).execute());
+    search.removeById('5');
+    expect(search.cacheSize).toBe(1);
+    search.removeById('1');
+    expect(search.cacheSize).toBe(0);
+  });
+
+  it('should bound nearest() regions by the k-th distance', () => {
+    const search = cachedWith((s) => s.nearest(CALGARY_CENTER, 2).execute());
+
+    // Beyond the second nearest gym, so it can't make the top 2
+    search.add(gymAt('outside-reach', 51.09, -114.07));
+    expect(search.cacheSize).toBe(1);
+
+    search.add(nearCenter);
+    expect(search.cacheSize).toBe(0);
+    expect(search.nearest(CALGARY_CENTER, 2).execute()[0]!.id).toBe('near');
+  });
+
+  it('should test single points against the exact shape', () => {
+    const sector = { fromBearing: 315, toBearing: 45 };
+    const search = cachedWith((s) => s.near(CALGARY_CENTER, 5, { sector }).execute());
+
+    // Inside the circle's bounding box and radius, but south of the center
+    search.add(gymAt('south', 51.03, -114.0719));
+    expect(search.cacheSize).toBe(1);
+    search.add(gymAt('north', 51.06, -114.0719));
+    expect(search.cacheSize).toBe(0);
+  });
+
+  it('should evict by combined extent for batches', () => {
+    const search = cachedWith((s) => s.near(CALGARY_CENTER, 2).execute());
+
+    search.addMany([farAway, gymAt('far-2', 53.6, -113.5), gymAt('far-3', 53.5, -113.4)]);
+    expect(search.cacheSize).toBe(1);
+
+    // Each point misses the circle, but together they span it
+    search.addMany([
+      gymAt('west', 51.04, -114.3),
+      gymAt('east', 51.04, -113.8),
+      gymAt('east-2', 51.05, -113.8),
+    ]);
+    expect(search.cacheSize).toBe(0);
+  });
+
+  it('should evict at both ends of a move', () => {
+    const search = cachedWith((s) => {
+      s.near(CALGARY_CENTER, 2).execute();
+      s.near(farAway, 2).execute();
+    });
+
+    search.move('1', farAway);
+    expect(search.cacheSize).toBe(0);
+    expect(
+      search
+        .near(farAway, 2)
+        .execute()
+        .map((gym) => gym.id)
+    ).toEqual(['1']);
+    expect(
+      search
+        .near(CALGARY_CENTER, 2)
+        .execute()
+        .map((gym) => gym.id)
+    ).not.toContain('1');
+  });
+
+  it('should report hit rate and invalidations', () => {
+    const search = cachedWith(() => {});
+    expect(GeoSearch.from(testGyms).cacheStats()).toBeNull();
+
+    search.near(CALGARY_CENTER, 2).execute();
+    search.near(CALGARY_CENTER, 2).execute();
+    search.near(CALGARY_CENTER, 2).executeWithMetadata();
+    search.add(nearCenter);
+    search.near(CALGARY_CENTER, 2).execute();
+
+    expect(search.cacheStats()).toMatchObject({
+      hits: 2,
+      misses: 2,
+      hitRate: 0.5,
+      invalidations: 1,
+      size: 1,
+    });
+  });
+});
+
+describe('cache limits and stores', () => {
+  const points = Array.from({ length: 500 }, (_, i) => ({
+    id: String(i),
+    lat: 50 + (i % 25) * 0.1,
+    lng: -115 + Math.floor(i / 25) * 0.1,
+  }));
+  const center = { lat: 51.03, lng: -114.02 };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should estimate bytes by result size', () => {
+    const search = GeoSearch.from(points, { cache: true });
+    search.nearest(center, 3).execute();
+    const small = search.cacheStats()!.bytes;
+    search.query().execute();
+
+    expect(small).toBeGreaterThan(0);
+    expect(search.cacheStats()!.bytes - small).toBeGreaterThan(small * 50);
+  });
+
+  it('should evict by estimated bytes', () => {
+    const probe = GeoSearch.from(points, { cache: true });
+    probe.nearest(center, 3).execute();
+    const smallBytes = probe.cacheStats()!.bytes;
+
+    const search = GeoSearch.from(points, { cache: true, cacheMaxBytes: smallBytes * 2.5 });
+    search.nearest(center, 3).execute();
+    search.nearest(center, 3).limit(2).execute();
+    expect(search.cacheSize).toBe(2);
+
+    // Too big to fit at all, so it's dropped rather than flushing the rest
+    search.query().execute();
+    expect(search.cacheSize).toBe(2);
+    expect(search.cacheStats()!.evictions).toBe(1);
+
+    search.nearest(center, 3).offset(1).execute();
+    expect(search.cacheSize).toBe(2);
+    expect(search.cacheStats()!.evictions).toBe(2);
+    expect(search.cacheStats()!.bytes).toBeLessThanOrEqual(smallBytes * 2.5);
+  });
+
+  it('should expire entries after cacheTtlMs', () => {
+    vi.useFakeTimers();
+    const search = GeoSearch.from(points, { cache: true, cacheTtlMs: 1000 });
+
+    search.near(center, 10).execute();
+    vi.advanceTimersByTime(999);
+    expect(search.near(center, 10).executeWithMetadata().metadata.cached).toBe(true);
+    vi.advanceTimersByTime(1);
+    expect(search.near(center, 10).executeWithMetadata().metadata.cached).toBe(false);
+    expect(search.cacheStats()).toMatchObject({ hits: 1, misses: 2, evictions: 1, size: 1 });
+  });
+
+  it('should share a store between instances', () => {
+    const store = new LRUCacheStore({ maxEntries: 3 });
+    const first = GeoSearch.from(points, { cacheStore: store });
+    const second = GeoSearch.from(points.slice(0, 100), { cacheStore: store });
+
+    expect(first.cacheEnabled).toBe(true);
+    first.query().limit(5).execute();
+    second.query().limit(5).execute();
+    expect(second.query().executeWithMetadata().items).toHaveLength(100);
+    expect(first.query().executeWithMetadata().items).toHaveLength(500);
+
+    expect(store.size).toBe(3);
+    expect(first.cacheSize + second.cacheSize).toBe(3);
+    // Only the entry first wrote was evicted
+    expect(first.cacheStats()!.evictions).toBe(1);
+    expect(second.cacheStats()!.evictions).toBe(0);
+
+    second.clearCache();
+    expect(second.cacheSize).toBe(0);
+    expect(first.cacheSize).toBe(1);
+  });
+});
+
+describe('nearest neighbors', () => {
+  const byDistance = [...testGyms].sort(
+    (a, b) => haversineDistance(CALGARY_CENTER, a) - haversineDistance(CALGARY_CENTER, b)
+  );
+
+  for (const isStatic of [false, true]) {
+    describe(isStatic ? 'static mode' : 'dynamic mode', () => {
+      const search = GeoSearch.from(testGyms, { static: isStatic });
+
+      it('should return the k closest items in distance order', () => {
+        const results = search.nearest(CALGARY_CENTER, 3).execute();
+        expect(results.map((r) => r.id)).toEqual(byDistance.slice(0, 3).map((g) => g.id));
+        for (let i = 1; i < results.length; i++) {
+          expect(results[i]!.distance).toBeGreaterThanOrEqual(results[i - 1]!.distance);
+        }
+      });
+
+      it('should return all items when k exceeds the dataset size', () => {
+        const results = search.nearest(CALGARY_CENTER, 50).execute();
+        expect(results.length).toBe(5);
+      });
+
+      it('should respect maxDistanceKm', () => {
+        const results = search.nearest(CALGARY_CENTER, 5, { maxDistanceKm: 5 }).execute();
+        expect(results.find((r) => r.id === '5')).toBeUndefined();
+        results.forEach((r) => expect(r.distance).toBeLessThanOrEqual(5));
+      });
+
+      it('should return exactly k matches when combined with where()', () => {
+        const results = search
+          .nearest(CALGARY_CENTER, 2)
+          .where('rating', 'greaterThan', 4.1)
+          .execute();
+        const expected = byDistance.filter((g) => g.rating > 4.1).slice(0, 2);
+        expect(results.map((r) => r.id)).toEqual(expected.map((g) => g.id));
+      });
+
+      it('should return nothing for k of 0', () => {
+        expect(search.nearest(CALGARY_CENTER, 0).execute()).toEqual([]);
+      });
+    });
+  }
+
+  it('should find neighbors in a larger dynamic dataset', () => {
+    const points = Array.from({ length: 500 }, (_, i) => ({
+      id: String(i),
+      lat: 50 + (i % 25) * 0.1,
+      lng: -115 + Math.floor(i / 25) * 0.1,
+    }));
+    const center = { lat: 51.03, lng: -114.02 };
+    const expected = [...points]
+      .sort((a, b) => haversineDistance(center, a) - haversineDistance(center, b))
+      .slice(0, 10)
+      .map((p) => p.id);
+
+    const dynamicIds = GeoSearch.from(points).nearest(center, 10).execute().map((r) => r.id);
+    const staticIds = GeoSearch.from(points, { static: true })
+      .nearest(center, 10)
+      .execute()
+      .map((r) => r.id);
+
+    expect(dynamicIds).toEqual(expected);
+    expect(staticIds).toEqual(expected);
+  });
+});
+
+describe('polygon search', () => {
+  // Covers Downtown Fitness, Kensington Athletic and Beltline CrossFit
+  const downtownSquare = [
+    { lat: 51.03, lng: -114.1 },
+    { lat: 51.06, lng: -114.1 },
+    { lat: 51.06, lng: -114.06 },
+    { lat: 51.03, lng: -114.06 },
+  ];
+
+  const ids = (results: TestLocation[]) => results.map((r) => r.id).sort();
+
+  for (const isStatic of [false, true]) {
+    it(`should find items inside a ring (${isStatic ? 'static' : 'dynamic'})`, () => {
+      const search = GeoSearch.from(testGyms, { static: isStatic });
+      expect(ids(search.withinPolygon(downtownSquare).execute())).toEqual(['1', '3', '4']);
+    });
+  }
+
+  it('should apply an exact test beyond the bounding box', () => {
+    const search = GeoSearch.from(testGyms);
+    // Upper-left half of the square - same bbox, but only Kensington is inside
+    const triangle = [downtownSquare[0]!, downtownSquare[1]!, downtownSquare[2]!];
+    expect(ids(search.withinPolygon(triangle).execute())).toEqual(['3']);
+  });
+
+  it('should exclude items inside holes', () => {
+    const search = GeoSearch.from(testGyms);
+    const hole = [
+      { lat: 51.04, lng: -114.07 },
+      { lat: 51.05, lng: -114.07 },
+      { lat: 51.05, lng: -114.061 },
+      { lat: 51.04, lng: -114.061 },
+    ];
+    expect(ids(search.withinPolygon([downtownSquare, hole]).execute())).toEqual(['3', '4']);
+  });
+
+  it('should accept GeoJSON Polygon and MultiPolygon geometries', () => {
+    const search = GeoSearch.from(testGyms);
+    const square = [
+      [-114.1, 51.03],
+      [-114.1, 51.06],
+      [-114.06, 51.06],
+      [-114.06, 51.03],
+      [-114.1, 51.03],
+    ];
+    const farNorth = [
+      [-114.08, 51.12],
+      [-114.08, 51.13],
+      [-114.06, 51.13],
+      [-114.06, 51.12],
+      [-114.08, 51.12],
+    ];
+
+    const polygon = search.withinPolygon({ type: 'Polygon', coordinates: [square] }).execute();
+    expect(ids(polygon)).toEqual(['1', '3', '4']);
+
+    const multi = search
+      .withinPolygon({ type: 'MultiPolygon', coordinates: [[square], [farNorth]] })
+      .execute();
+    expect(ids(multi)).toEqual(['1', '3', '4', '5']);
+  });
+
+  it('should combine with radius and attribute filters', () => {
+    const search = GeoSearch.from(testGyms);
+    const results = search.near(CALGARY_CENTER, 1.5).withinPolygon(downtownSquare).execute();
+    expect(ids(results)).toEqual(['1', '4']);
+    results.forEach((r) => expect(r.distance).toBeDefined());
+
+    const filtered = search
+      .withinPolygon(downtownSquare)
+      .where('rating', 'greaterThan', 4.4)
+      .execute();
+    expect(ids(filtered)).toEqual(['1', '3']);
+  });
+
+  it('should reject degenerate rings', () => {
+    const search = GeoSearch.from(testGyms);
+    expect(() => search.withinPolygon([CALGARY_CENTER, CALGARY_CENTER])).toThrow();
+  });
+
+  it('should cache polygon queries by shape', () => {
+    const search = GeoSearch.from(testGyms, { cache: true });
+    search.withinPolygon(downtownSquare).execute();
+    search.withinPolygon(downtownSquare).execute();
+    expect(search.cacheSize).toBe(1);
+
+    search.withinPolygon(downtownSquare.slice(0, 3)).execute();
+    expect(search.cacheSize).toBe(2);
+  });
+});
+
+describe('antimeridian and polar queries', () => {
+  // Grid straddling the date line around Fiji, plus a ring of points near the North Pole
+  const pacificPoints = [
+    ...Array.from({ length: 21 * 11 }, (_, i) => ({
+      id: `fiji-${i}`,
+      lat: -20 + Math.floor(i / 21) * 0.5,
+      lng: ((170 + (i % 21) + 180) % 360) - 180,
+    })),
+    ...Array.from({ length: 36 }, (_, i) => ({
+      id: `arctic-${i}`,
+      lat: 89.7,
+      lng: -180 + i * 10,
+    })),
+  ];
+
+  const ids = (results: Array<{ id: string }>) => results.map((r) => r.id).sort();
+
+  for (const isStatic of [false, true]) {
+    describe(isStatic ? 'static mode' : 'dynamic mode', () => {
+      const search = GeoSearch.from(pacificPoints, { static: isStatic });
+
+      it('should find radius matches on both sides of the antimeridian', () => {
+        const center = { lat: -17.5, lng: 179.8 };
+        const expected = pacificPoints.filter((p) => haversineDistance(center, p) <= 150);
+        const results = search.near(center, 150).execute();
+
+        expect(ids(results)).toEqual(ids(expected));
+        expect(results.some((r) => r.lng < 0)).toBe(true);
+        expect(results.some((r) => r.lng > 0)).toBe(true);
+      });
+
+      it('should support bounds where minLng > maxLng', () => {
+        const results = search
+          .withinBounds({ minLat: -20, maxLat: -15, minLng: 178, maxLng: -178 })
+          .execute();
+        const lngs = new Set(results.map((r) => r.lng));
+
+        expect([...lngs].sort((a, b) => a - b)).toEqual([-180, -179, -178, 178, 179]);
+      });
+
+      it('should accept unnormalized bounds past 180', () => {
+        const wrapped = search
+          .withinBounds({ minLat: -20, maxLat: -15, minLng: 178, maxLng: 182 })
+          .execute();
+        const split = search
+          .withinBounds({ minLat: -20, maxLat: -15, minLng: 178, maxLng: -178 })
+          .execute();
+
+        expect(ids(wrapped)).toEqual(ids(split));
+      });
+
+      it('should cover every longitude when the circle reaches a pole', () => {
+        const center = { lat: 89.9, lng: 0 };
+        const results = search.near(center, 50).execute();
+        const expected = pacificPoints.filter((p) => haversineDistance(center, p) <= 50);
+
+        expect(results.length).toBe(36);
+        expect(ids(results)).toEqual(ids(expected));
+      });
+    });
+  }
+
+  it('should not clip radius searches at high latitudes', () => {
+    // The flat km-per-degree estimate underestimates the circle's longitude
+    // extent this far north, which used to drop these points
+    const center = { lat: 80, lng: 0 };
+    const points = Array.from({ length: 60 }, (_, i) => ({
+      id: String(i),
+      lat: 80.5 + (i % 6) * 0.5,
+      lng: 20 + Math.floor(i / 6) * 1,
+    }));
+    const expected = points.filter((p) => haversineDistance(center, p) <= 500);
+
+    expect(expected.length).toBeGreaterThan(0);
+    expect(ids(GeoSearch.from(points).near(center, 500).execute())).toEqual(ids(expected));
+  });
+});
+
+describe('distance metrics', () => {
+  it('should match the reference Vincenty result', () => {
+    // Flinders Peak to Buninyong, the worked example from Vincenty's paper: 54972.271m
+    const flindersPeak = { lat: -37.95103342, lng: 144.42486789 };
+    const buninyong = { lat: -37.65282114, lng: 143.92649554 };
+    expect(vincentyDistance(flindersPeak, buninyong)).toBeCloseTo(54.972271, 4);
+    expect(vincentyDistance(flindersPeak, flindersPeak)).toBe(0);
+  });
+
+  it('should keep equirectangular close to haversine at city scale', () => {
+    const gym = testGyms[4]!;
+    const haversine = haversineDistance(CALGARY_CENTER, gym);
+    expect(equirectangularDistance(CALGARY_CENTER, gym)).toBeCloseTo(haversine, 3);
+  });
+
+  for (const metric of ['vincenty', 'equirectangular'] as const) {
+    const metricFn = metric === 'vincenty' ? vincentyDistance : equirectangularDistance;
+
+    it(`should use ${metric} for radius results in both modes`, () => {
+      const dynamicResults = GeoSearch.from(testGyms, { distance: metric })
+        .near(CALGARY_CENTER, 10)
+        .execute();
+      const staticResults = GeoSearch.from(testGyms, { distance: metric, static: true })
+        .near(CALGARY_CENTER, 10)
+        .sortBy([{ field: 'distance', order: 'asc' }])
+        .execute();
+
+      expect(dynamicResults.length).toBe(5);
+      dynamicResults.forEach((r) => expect(r.distance).toBe(metricFn(CALGARY_CENTER, r)));
+      staticResults.forEach((r) => expect(r.distance).toBe(metricFn(CALGARY_CENTER, r)));
+    });
+  }
+
+  it('should agree between modes on borderline points', () => {
+    const radius = vincentyDistance(CALGARY_CENTER, testGyms[4]!);
+    for (const isStatic of [false, true]) {
+      const search = GeoSearch.from(testGyms, { distance: 'vincenty', static: isStatic });
+      expect(search.near(CALGARY_CENTER, radius).execute().length).toBe(5);
+      expect(search.near(CALGARY_CENTER, radius - 1e-6).execute().length).toBe(4);
+    }
+  });
+
+  it('should rank nearest neighbors by the configured metric', () => {
+    const points = Array.from({ length: 400 }, (_, i) => ({
+      id: String(i),
+      lat: 60 + (i % 20) * 0.05,
+      lng: 10 + Math.floor(i / 20) * 0.1,
+    }));
+    const center = { lat: 60.42, lng: 10.93 };
+    const expected = [...points]
+      .sort((a, b) => vincentyDistance(center, a) - vincentyDistance(center, b))
+      .slice(0, 8)
+      .map((p) => p.id);
+
+    for (const isStatic of [false, true]) {
+      const search = GeoSearch.from(points, { distance: 'vincenty', static: isStatic });
+      expect(search.nearest(center, 8).execute().map((r) => r.id)).toEqual(expected);
+    }
+  });
+
+  it('should accept a custom distance function', () => {
+    const custom = (a: GeoPoint, b: GeoPoint) => haversineDistance(a, b) * 1.005;
+    const results = GeoSearch.from(testGyms, { distance: custom })
+      .near(CALGARY_CENTER, 10)
+      .execute();
+    results.forEach((r) => expect(r.distance).toBe(custom(CALGARY_CENTER, r)));
+  });
+
+  it('should reject unknown metric names', () => {
+    expect(() => GeoSearch.from(testGyms, { distance: 'manhattan' as 'haversine' })).toThrow();
+  });
+});
+
+describe('distance units', () => {
+  it('should convert between units', () => {
+    expect(toKilometers(1, 'mi')).toBeCloseTo(1.609344, 9);
+    expect(toKilometers(1, 'nmi')).toBe(1.852);
+    expect(fromKilometers(1.5, 'm')).toBe(1500);
+    expect(convertDistance(10, 'mi', 'nmi')).toBeCloseTo(8.68976, 5);
+  });
+
+  it('should interpret per-query radius and distances in miles', () => {
+    const search = GeoSearch.from(testGyms);
+    const km = search.near(CALGARY_CENTER, 5).execute();
+    // 3.2mi is just over 5km, so the same gyms match
+    const miles = search.near(CALGARY_CENTER, 3.2, { units: 'mi' }).execute();
+
+    expect(miles.map((r) => r.id).sort()).toEqual(km.map((r) => r.id).sort());
+    for (const result of miles) {
+      const inKm = km.find((r) => r.id === result.id)!;
+      expect(result.distance).toBeCloseTo(fromKilometers(inKm.distance, 'mi'), 9);
+    }
+  });
+
+  it('should use the instance default units', () => {
+    const search = GeoSearch.from(testGyms, { units: 'm', static: true });
+    const results = search
+      .near(CALGARY_CENTER, 5000)
+      .sortBy([{ field: 'distance', order: 'asc' }])
+      .execute();
+
+    expect(results.find((r) => r.id === '5')).toBeUndefined();
+    const closestKm = haversineDistance(CALGARY_CENTER, results[0]!);
+    expect(results[0]!.distance).toBeCloseTo(closestKm * 1000, 6);
+  });
+
+  it('should pass converted distances to score functions', () => {
+    const distances: number[] = [];
+    GeoSearch.from(testGyms)
+      .near(CALGARY_CENTER, 10, { units: 'nmi' })
+      .score((_, distance) => {
+        distances.push(distance!);
+        return 0;
+      })
+      .execute();
+
+    const farthestKm = Math.max(...testGyms.map((g) => haversineDistance(CALGARY_CENTER, g)));
+    expect(Math.max(...distances)).toBeCloseTo(fromKilometers(farthestKm, 'nmi'), 9);
+  });
+
+  it('should apply units to nearest() maxDistance', () => {
+    const search = GeoSearch.from(testGyms, { units: 'mi' });
+    // Far North Gym is ~5.4mi away
+    const results = search.nearest(CALGARY_CENTER, 5, { maxDistance: 3 }).execute();
+    expect(results.length).toBe(4);
+    results.forEach((r) => expect(r.distance).toBeLessThanOrEqual(3));
+  });
+
+  it('should cache queries in different units separately', () => {
+    const search = GeoSearch.from(testGyms, { cache: true });
+    const km = search.near(CALGARY_CENTER, 8.04672).execute();
+    const miles = search.near(CALGARY_CENTER, 5, { units: 'mi' }).execute();
+
+    expect(search.cacheSize).toBe(2);
+    expect(miles[0]!.distance).not.toBe(km[0]!.distance);
+  });
+});
+
+describe('clustering', () => {
+  const WORLD = { minLat: -85, maxLat: 85, minLng: -180, maxLng: 180 };
+
+  const totalCount = (clusters: Array<{ type: string; count?: number }>) =>
+    clusters.reduce((sum, c) => sum + (c.type === 'cluster' ? c.count! : 1), 0);
+
+  it('should merge nearby points into one cluster at low zoom', () => {
+    const search = GeoSearch.from(testGyms);
+    const clusters = search.cluster(WORLD, 0);
+
+    expect(clusters.length).toBe(1);
+    const [cluster] = clusters;
+    if (cluster?.type !== 'cluster') throw new Error('expected a cluster');
+    expect(cluster.count).toBe(5);
+    expect(cluster.lat).toBeCloseTo(51.06, 1);
+    expect(cluster.lng).toBeCloseTo(-114.08, 1);
+    expect(cluster.expansionZoom).toBeGreaterThan(0);
+  });
+
+  it('should return individual points past maxZoom', () => {
+    const search = GeoSearch.from(testGyms);
+    const clusters = search.cluster(WORLD, 20);
+    expect(clusters.every((c) => c.type === 'point')).toBe(true);
+    expect(clusters.length).toBe(5);
+  });
+
+  it('should keep counts consistent at every zoom', () => {
+    const points = Array.from({ length: 300 }, (_, i) => ({
+      id: String(i),
+      lat: 49 + (i % 20) * 0.3,
+      lng: -120 + Math.floor(i / 20) * 0.6,
+    }));
+    const search = GeoSearch.from(points, { static: true });
+    for (let zoom = 0; zoom <= 17; zoom++) {
+      expect(totalCount(search.cluster(WORLD, zoom))).toBe(300);
+    }
+  });
+
+  it('should return all leaves of a cluster with limit and offset', () => {
+    const search = GeoSearch.from(testGyms);
+    const [cluster] = search.cluster(WORLD, 0);
+    if (cluster?.type !== 'cluster') throw new Error('expected a cluster');
+
+    const leaves = search.getClusterLeaves(cluster.id);
+    expect(leaves.map((l) => l.id).sort()).toEqual(['1', '2', '3', '4', '5']);
+
+    const page = search.getClusterLeaves(cluster.id, 2, 2);
+    expect(page.length).toBe(2);
+    expect(page.every((l) => leaves.indexOf(l) >= 2)).toBe(true);
+  });
+
+  it('should split a cluster at its expansion zoom', () => {
+    const search = GeoSearch.from(testGyms);
+    const [cluster] = search.cluster(WORLD, 0);
+    if (cluster?.type !== 'cluster') throw new Error('expected a cluster');
+
+    expect(search.cluster(WORLD, cluster.expansionZoom - 1).length).toBe(1);
+    expect(search.cluster(WORLD, cluster.expansionZoom).length).toBeGreaterThan(1);
+  });
+
+  it('should respect where() filters', () => {
+    const search = GeoSearch.from(testGyms);
+    const query = search.where('rating', 'greaterThan', 4.0);
+    const clusters = query.cluster(WORLD, 0);
+
+    expect(totalCount(clusters)).toBe(query.execute().length);
+    const [cluster] = clusters;
+    if (cluster?.type !== 'cluster') throw new Error('expected a cluster');
+    expect(query.getClusterLeaves(cluster.id).every((g) => g.rating > 4.0)).toBe(true);
+  });
+
+  it('should only return clusters inside the bounds', () => {
+    const search = GeoSearch.from(testGyms);
+    const elsewhere = { minLat: 40, maxLat: 45, minLng: -80, maxLng: -70 };
+    expect(search.cluster(elsewhere, 5)).toEqual([]);
+  });
+
+  it('should rebuild clusters after mutation', () => {
+    const search = GeoSearch.from(testGyms);
+    expect(totalCount(search.cluster(WORLD, 0))).toBe(5);
+    search.add({ ...testGyms[0]!, id: '6' });
+    expect(totalCount(search.cluster(WORLD, 0))).toBe(6);
+  });
+
+  it.each([false, 'hybrid' as const])(
+    'should rebuild clusters of a reused query after mutation (static: %s)',
+    (mode) => {
+      const search = GeoSearch.from(testGyms, { static: mode });
+      const query = search.where('rating', 'greaterThan', 4.0);
+      const before = totalCount(query.cluster(WORLD, 0));
+
+      search.add({ ...testGyms[0]!, id: '6', rating: 5 });
+      expect(totalCount(query.cluster(WORLD, 0))).toBe(before + 1);
+      expect(totalCount(query.cluster(WORLD, 0))).toBe(query.execute().length);
+
+      search.remove(testGyms.find((g) => g.rating > 4.0)!);
+      expect(totalCount(query.cluster(WORLD, 0))).toBe(before);
+    }
+  );
+
+  it('should throw for unknown cluster ids', () => {
+    const search = GeoSearch.from(testGyms);
+    expect(() => search.getClusterLeaves(123456)).toThrow();
+  });
+});
+
+describe('aggregations', () => {
+  const search = GeoSearch.from(testGyms);
+
+  it('should count terms including array fields', () => {
+    const { total, terms } = search.query().aggregate({ terms: ['tags', 'rating'] });
+
+    expect(total).toBe(5);
+    expect(terms.tags).toContainEqual({ value: 'squat rack', count: 3 });
+    expect(terms.tags).toContainEqual({ value: 'cardio', count: 3 });
+    expect(terms.tags).toContainEqual({ value: 'pool', count: 1 });
+    expect(terms.tags![0]!.count).toBe(3);
+    expect(terms.rating!.length).toBe(5);
+  });
+
+  it('should bucket numeric histograms', () => {
+    const { histograms } = search.query().aggregate({
+      histogram: { field: 'price', interval: 25 },
+    });
+
+    expect(histograms.price).toEqual([
+      { key: 25, count: 1 },
+      { key: 50, count: 2 },
+      { key: 75, count: 2 },
+    ]);
+  });
+
+  it('should compute stats', () => {
+    const { stats } = search.near(CALGARY_CENTER, 5).aggregate({ stats: 'rating' });
+
+    expect(stats.rating!.count).toBe(4);
+    expect(stats.rating!.min).toBe(4.0);
+    expect(stats.rating!.max).toBe(4.8);
+    expect(stats.rating!.avg).toBeCloseTo((4.5 + 4.2 + 4.8 + 4.0) / 4, 9);
+  });
+
+  it('should report empty stats when nothing matches', () => {
+    const { total, stats } = search
+      .where('price', 'greaterThan', 1000)
+      .aggregate({ stats: 'price' });
+    expect(total).toBe(0);
+    expect(stats.price).toEqual({ count: 0, min: null, max: null, sum: 0, avg: null });
+  });
+
+  it('should aggregate over the filtered set', () => {
+    const query = search.where('rating', 'greaterThan', 4.0);
+    const { total, terms } = query.aggregate({ terms: 'tags' });
+
+    expect(total).toBe(query.execute().length);
+    expect(terms.tags).toContainEqual({ value: 'cardio', count: 1 });
+  });
+
+  it('should exclude a facet field\'s own filter for disjunctive facets', () => {
+    const query = search
+      .where('tags', 'includes', 'pool')
+      .where('price', 'lessThan', 70);
+    const { total, terms, histograms } = query.aggregate({
+      terms: 'tags',
+      histogram: { field: 'price', interval: 50 },
+      disjunctive: ['tags'],
+    });
+
+    // Only West End Gym matches both filters
+    expect(total).toBe(1);
+    // Tag counts ignore the tag filter but still apply the price filter:
+    // Downtown (50), West End (60) and Far North (30)
+    expect(terms.tags).toContainEqual({ value: 'cardio', count: 2 });
+    expect(terms.tags).toContainEqual({ value: 'squat rack', count: 2 });
+    expect(terms.tags).toContainEqual({ value: 'pool', count: 1 });
+    // Non-disjunctive facets still see every filter
+    expect(histograms.price).toEqual([{ key: 50, count: 1 }]);
+  });
+
+  it('should reject non-positive histogram intervals', () => {
+    expect(() => search.query().aggregate({ histogram: { field: 'price', interval: 0 } })).toThrow();
+  });
+});
+
+describe('density', () => {
+  const CALGARY_BOUNDS = { minLat: 51.0, maxLat: 51.2, minLng: -114.2, maxLng: -114.0 };
+
+  for (const isStatic of [false, true]) {
+    it(`should bin matches into a sparse km grid (${isStatic ? 'static' : 'dynamic'})`, () => {
+      const search = GeoSearch.from(testGyms, { static: isStatic });
+      const { cells, total, maxValue } = search
+        .query()
+        .density({ bounds: CALGARY_BOUNDS, cellSizeKm: 2 });
+
+      expect(total).toBe(5);
+      expect(cells.reduce((sum, c) => sum + c.count, 0)).toBe(5);
+      // Downtown Fitness and Beltline CrossFit share a cell
+      expect(maxValue).toBe(2);
+      for (const cell of cells) {
+        expect(cell.value).toBe(cell.count);
+      }
+    });
+  }
+
+  it('should place every point inside its cell bounds', () => {
+    const search = GeoSearch.from(testGyms);
+    const { cells } = search.query().density({ bounds: CALGARY_BOUNDS, cellSizeKm: 1 });
+
+    for (const gym of testGyms) {
+      expect(cells.filter((c) => isPointInBounds(gym, c.bounds)).length).toBe(1);
+    }
+  });
+
+  it('should sum a weight field', () => {
+    const search = GeoSearch.from(testGyms);
+    const { cells } = search
+      .query()
+      .density({ bounds: CALGARY_BOUNDS, cellSizeKm: 50, weightField: 'price' });
+
+    expect(cells.length).toBe(1);
+    expect(cells[0]!.value).toBe(50 + 60 + 75 + 80 + 30);
+  });
+
+  it('should use geohash cells', () => {
+    const search = GeoSearch.from(testGyms);
+    const { cells } = search.query().density({ bounds: CALGARY_BOUNDS, geohashPrecision: 5 });
+
+    for (const cell of cells) {
+      expect(cell.key.length).toBe(5);
+      expect(cell.bounds).toEqual(geohashBounds(cell.key));
+    }
+    expect(cells.reduce((sum, c) => sum + c.count, 0)).toBe(5);
+  });
+
+  it('should respect query filters and the grid bounds', () => {
+    const search = GeoSearch.from(testGyms);
+    const filtered = search
+      .near(CALGARY_CENTER, 5)
+      .where('rating', 'greaterThan', 4.1)
+      .density({ bounds: CALGARY_BOUNDS, cellSizeKm: 1 });
+    expect(filtered.total).toBe(3);
+
+    const southOnly = search
+      .query()
+      .density({ bounds: { ...CALGARY_BOUNDS, maxLat: 51.04 }, cellSizeKm: 1 });
+    expect(southOnly.total).toBe(2);
+  });
+
+  it('should require exactly one cell size option', () => {
+    const search = GeoSearch.from(testGyms);
+    expect(() => search.query().density({ bounds: CALGARY_BOUNDS })).toThrow();
+    expect(() =>
+      search.query().density({ bounds: CALGARY_BOUNDS, cellSizeKm: 1, geohashPrecision: 5 })
+    ).toThrow();
+  });
+
+  it('should encode geohashes', () => {
+    expect(encodeGeohash(57.64911, 10.40744, 11)).toBe('u4pruydqqvj');
+    const bounds = geohashBounds('u4pruydqqvj');
+    expect(isPointInBounds({ lat: 57.64911, lng: 10.40744 }, bounds)).toBe(true);
+  });
+});
+
+describe('spatial join', () => {
+  const transitStops = [
+    { id: 's1', lat: 51.0455, lng: -114.0625, accessible: true },
+    { id: 's2', lat: 51.0449, lng: -114.0645, accessible: false },
+    { id: 's3', lat: 51.0525, lng: -114.0885, accessible: true },
+    { id: 's4', lat: 51.0, lng: -114.0, accessible: true },
+  ];
+
+  it('should pair items within the radius', () => {
+    const gyms = GeoSearch.from(testGyms);
+    const stops = GeoSearch.from(transitStops);
+    const pairs = GeoSearch.join(gyms, stops, { radiusKm: 0.5 });
+
+    expect(pairs.map((p) => `${p.left.id}-${p.right.id}`)).toEqual(['1-s1', '1-s2', '3-s3']);
+    pairs.forEach((p) => {
+      expect(p.distance).toBeLessThanOrEqual(0.5);
+      expect(p.distance).toBeCloseTo(haversineDistance(p.left, p.right), 9);
+    });
+  });
+
+  it('should match a brute-force join', () => {
+    const points = Array.from({ length: 200 }, (_, i) => ({
+      id: `p${i}`,
+      lat: 51 + ((i * 37) % 100) * 0.002,
+      lng: -114 + ((i * 53) % 100) * 0.003,
+    }));
+    const left = GeoSearch.from(points.slice(0, 100));
+    const right = GeoSearch.from(points.slice(100), { static: true });
+
+    const expected: string[] = [];
+    for (const a of points.slice(0, 100)) {
+      for (const b of points.slice(100)) {
+        if (haversineDistance(a, b) <= 0.3) expected.push(`${a.id}-${b.id}`);
+      }
+    }
+    expect(expected.length).toBeGreaterThan(0);
+    const actual = GeoSearch.join(left, right, { radiusKm: 0.3 }).map(
+      (p) => `${p.left.id}-${p.right.id}`
+    );
+
+    expect(actual.sort()).toEqual(expected.sort());
+  });
+
+  it('should apply where filters on each side', () => {
+    const gyms = GeoSearch.from(testGyms);
+    const stops = GeoSearch.from(transitStops);
+    const pairs = GeoSearch.join(
+      gyms.where('rating', 'greaterThan', 4.6),
+      stops.where('accessible', 'equals', true),
+      { radiusKm: 0.5 }
+    );
+
+    expect(pairs.map((p) => `${p.left.id}-${p.right.id}`)).toEqual(['3-s3']);
+  });
+
+  it('should keep only the closest right item with nearestOnly', () => {
+    const gyms = GeoSearch.from(testGyms);
+    const stops = GeoSearch.from(transitStops);
+    const pairs = GeoSearch.join(gyms, stops, { radiusKm: 0.5, nearestOnly: true });
+
+    expect(pairs.map((p) => `${p.left.id}-${p.right.id}`)).toEqual(['1-s1', '3-s3']);
+  });
+
+  it('should not pair items with themselves in a self-join', () => {
+    const search = GeoSearch.from(testGyms);
+    const pairs = GeoSearch.join(search, search, { radiusKm: 1, k: 1 });
+
+    expect(pairs.every((p) => p.left !== p.right)).toBe(true);
+    expect(pairs.map((p) => `${p.left.id}-${p.right.id}`)).toEqual(['1-4', '4-1']);
+  });
+});
+
+describe('annulus and sector queries', () => {
+  // Points 1-5km from the center at the four compass points
+  const ring: TestLocation[] = [
+    { lat: 51.0627, lng: -114.0719, bearingHint: 'N2' },
+    { lat: 51.0897, lng: -114.0719, bearingHint: 'N5' },
+    { lat: 51.0447, lng: -114.0434, bearingHint: 'E2' },
+    { lat: 51.0267, lng: -114.0719, bearingHint: 'S2' },
+    { lat: 51.0447, lng: -114.1004, bearingHint: 'W2' },
+    { lat: 51.0456, lng: -114.0719, bearingHint: 'N0' },
+  ].map((p, i) => ({
+    id: p.bearingHint,
+    name: `Point ${i}`,
+    lat: p.lat,
+    lng: p.lng,
+    rating: 4,
+    tags: [],
+    price: 10,
+  }));
+
+  it('should compute initial bearings', () => {
+    expect(initialBearing(CALGARY_CENTER, { lat: 52, lng: -114.0719 })).toBeCloseTo(0, 6);
+    expect(initialBearing(CALGARY_CENTER, { lat: 50, lng: -114.0719 })).toBeCloseTo(180, 6);
+    expect(initialBearing({ lat: 0, lng: 0 }, { lat: 0, lng: 1 })).toBeCloseTo(90, 6);
+    expect(initialBearing({ lat: 0, lng: 0 }, { lat: 0, lng: -1 })).toBeCloseTo(270, 6);
+  });
+
+  it('should match sectors that wrap through north', () => {
+    const sector = { fromBearing: 350, toBearing: 10 };
+    expect(isBearingInSector(355, sector)).toBe(true);
+    expect(isBearingInSector(5, sector)).toBe(true);
+    expect(isBearingInSector(180, sector)).toBe(false);
+    expect(isBearingInSector(90, { fromBearing: 45, toBearing: 135 })).toBe(true);
+  });
+
+  it.each([false, true])(
+    'should exclude points inside the inner radius (static: %s)',
+    (isStatic) => {
+      const search = GeoSearch.from(ring, { static: isStatic });
+      const results = search.near(CALGARY_CENTER, 3, { minRadiusKm: 1 }).execute();
+
+      expect(results.map((r) => r.id).sort()).toEqual(['E2', 'N2', 'S2', 'W2']);
+      for (const result of results) {
+        expect(result.distance).toBeGreaterThanOrEqual(1);
+      }
+    }
+  );
+
+  it('should interpret minRadius in the query units', () => {
+    const search = GeoSearch.from(ring);
+    const results = search.near(CALGARY_CENTER, 4000, { units: 'm', minRadius: 1000 }).execute();
+    expect(results.map((r) => r.id).sort()).toEqual(['E2', 'N2', 'S2', 'W2']);
+  });
+
+  it.each([false, true])('should filter by sector and add bearings (static: %s)', (isStatic) => {
+    const search = GeoSearch.from(ring, { static: isStatic });
+    const results = search
+      .near(CALGARY_CENTER, 10, { sector: { fromBearing: 350, toBearing: 100 } })
+      .execute() as Array<WithBearing<TestLocation>>;
+
+    expect(results.map((r) => r.id).sort()).toEqual(['E2', 'N0', 'N2', 'N5']);
+    expect(results.find((r) => r.id === 'N0')!.bearing).toBeCloseTo(0, 3);
+    expect(results.find((r) => r.id === 'E2')!.bearing).toBeCloseTo(90, 0);
+  });
+
+  it('should not add bearings without a sector', () => {
+    const results = GeoSearch.from(ring).near(CALGARY_CENTER, 10).execute();
+    expect(results[0]).not.toHaveProperty('bearing');
+  });
+
+  it('should combine annulus and sector with nearest()', () => {
+    const search = GeoSearch.from(ring);
+    const results = search
+      .near(CALGARY_CENTER, 10, { minRadiusKm: 1, sector: { fromBearing: 315, toBearing: 45 } })
+      .nearest(CALGARY_CENTER, 1)
+      .execute();
+
+    expect(results.map((r) => r.id)).toEqual(['N2']);
+  });
+
+  it('should cache different sectors separately', () => {
+    const search = GeoSearch.from(ring);
+    const north = search.near(CALGARY_CENTER, 10, { sector: { fromBearing: 315, toBearing: 45 } });
+    const south = search.near(CALGARY_CENTER, 10, { sector: { fromBearing: 135, toBearing: 225 } });
+
+    expect(
+      north
+        .execute()
+        .map((r) => r.id)
+        .sort()
+    ).toEqual(['N0', 'N2', 'N5']);
+    expect(south.execute().map((r) => r.id)).toEqual(['S2']);
+  });
+});
+
+describe('cursor pagination', () => {
+  const sortByRating = [{ field: 'rating' as const, order: 'desc' as const }];
+
+  function collectPages(query: ReturnType<GeoSearch<TestLocation>['query']>, pageSize: number) {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = (cursor ? query.after(cursor) : query).limit(pageSize).executeWithMetadata();
+      ids.push(...page.items.map((item) => item.id));
+      cursor = page.metadata.nextCursor;
+    } while (cursor);
+    return ids;
+  }
+
+  it.each([false, true])('should page through every result once (static: %s)', (isStatic) => {
+    const search = GeoSearch.from(testGyms, { static: isStatic });
+    const query = search.query().sortBy(sortByRating);
+
+    expect(collectPages(query, 2)).toEqual(query.execute().map((item) => item.id));
+  });
+
+  it('should include distance in the cursor for near() queries', () => {
+    const search = GeoSearch.from(testGyms);
+    const query = search.near(CALGARY_CENTER, 20).sortBy([{ field: 'distance', order: 'asc' }]);
+
+    const first = query.limit(2).executeWithMetadata();
+    const second = query.after(first.metadata.nextCursor!).limit(2).executeWithMetadata();
+
+    expect(second.items[0]!.distance).toBeGreaterThanOrEqual(first.items[1]!.distance);
+    expect(second.items.map((r) => r.id)).toEqual(
+      query
+        .offset(2)
+        .limit(2)
+        .execute()
+        .map((r) => r.id)
+    );
+  });
+
+  it('should break ties by insertion order', () => {
+    const twins = [1, 2, 3, 4, 5].map((n) => ({ ...testGyms[0]!, id: `twin-${n}` }));
+    const search = GeoSearch.from(twins);
+    const query = search.query().sortBy(sortByRating);
+
+    expect(collectPages(query, 2)).toEqual(['twin-1', 'twin-2', 'twin-3', 'twin-4', 'twin-5']);
+  });
+
+  it('should not shift pages when items are added before the cursor', () => {
+    const search = GeoSearch.from(testGyms);
+    const query = search.query().sortBy(sortByRating).limit(2);
+
+    const first = query.executeWithMetadata();
+    const expected = query
+      .offset(2)
+      .execute()
+      .map((r) => r.id);
+
+    search.add({ ...testGyms[0]!, id: 'new-top', rating: 5 });
+
+    const second = query.after(first.metadata.nextCursor!).executeWithMetadata();
+    expect(second.items.map((r) => r.id)).toEqual(expected);
+  });
+
+  it('should omit nextCursor on the last page', () => {
+    const search = GeoSearch.from(testGyms);
+    const all = search.query().sortBy(sortByRating).limit(testGyms.length).executeWithMetadata();
+    expect(all.metadata.nextCursor).toBeUndefined();
+
+    const unsorted = search.query().limit(1).executeWithMetadata();
+    expect(unsorted.metadata.nextCursor).toBeUndefined();
+  });
+
+  it('should return nextCursor from cached results', () => {
+    const search = GeoSearch.from(testGyms, { cache: true });
+    const query = search.query().sortBy(sortByRating).limit(2);
+
+    const fresh = query.executeWithMetadata();
+    const cached = query.executeWithMetadata();
+    expect(cached.metadata.cached).toBe(true);
+    expect(cached.metadata.nextCursor).toBe(fresh.metadata.nextCursor);
+  });
+
+  it('should reject cursors without or with a different sort', () => {
+    const search = GeoSearch.from(testGyms);
+    const { nextCursor } = search
+      .query()
+      .sortBy(sortByRating)
+      .limit(2)
+      .executeWithMetadata().metadata;
+
+    expect(() => search.query().after(nextCursor!).execute()).toThrow('requires sortBy()');
+    expect(() =>
+      search
+        .query()
+        .sortBy([{ field: 'price', order: 'asc' }])
+        .after(nextCursor!)
+        .execute()
+    ).toThrow('different sort order');
+    expect(() => search.query().sortBy(sortByRating).after('not a cursor').execute()).toThrow(
+      'Invalid cursor'
+    );
+  });
+});
+
+describe('geohash queries', () => {
+  it('should decode a geohash to its cell center', () => {
+    const decoded = decodeGeohash('u4pruydqqvj');
+    expect(decoded.lat).toBeCloseTo(57.64911, 4);
+    expect(decoded.lng).toBeCloseTo(10.40744, 4);
+    expect(encodeGeohash(decoded.lat, decoded.lng, 11)).toBe('u4pruydqqvj');
+    expect(decoded.error.lat).toBeLessThan(0.001);
+  });
+
+  it('should find the eight neighbors', () => {
+    const neighbors = geohashNeighbors('c3nfkh');
+    const center = decodeGeohash('c3nfkh');
+    const north = decodeGeohash(neighbors.n!);
+    const east = decodeGeohash(neighbors.e!);
+
+    expect(Object.values(neighbors)).toHaveLength(8);
+    expect(new Set(Object.values(neighbors)).size).toBe(8);
+    expect(north.lat).toBeCloseTo(center.lat + center.error.lat * 2, 9);
+    expect(east.lng).toBeCloseTo(center.lng + center.error.lng * 2, 9);
+  });
+
+  it('should wrap neighbors across the antimeridian and stop at the poles', () => {
+    const eastEdge = encodeGeohash(0, 179.99, 4);
+    const east = decodeGeohash(geohashNeighbors(eastEdge).e!);
+    expect(east.lng).toBeLessThan(-179);
+
+    const polar = geohashNeighbors(encodeGeohash(89.99, 0, 3));
+    expect(polar.n).toBeNull();
+    expect(polar.ne).toBeNull();
+    expect(polar.s).not.toBeNull();
+  });
+
+  it.each([false, true])('should filter items by geohash cell (static: %s)', (isStatic) => {
+    const search = GeoSearch.from(testGyms, { static: isStatic });
+    const hash = encodeGeohash(testGyms[0]!.lat, testGyms[0]!.lng, 6);
+    const results = search.withinGeohash(hash).execute();
+
+    expect(results.map((r) => r.id)).toContain('1');
+    for (const result of results) {
+      expect(encodeGeohash(result.lat, result.lng, 6)).toBe(hash);
+    }
+  });
+
+  it('should union several cells without duplicates', () => {
+    const search = GeoSearch.from(testGyms);
+    const hashes = testGyms.map((gym) => encodeGeohash(gym.lat, gym.lng, 7));
+    // The precision 4 parent covers everything in Calgary
+    const parent = hashes[0]!.slice(0, 4);
+
+    expect(search.withinGeohash(hashes).execute()).toHaveLength(testGyms.length);
+    expect(search.withinGeohash([...hashes, parent]).execute()).toHaveLength(testGyms.length);
+  });
+
+  it('should combine geohash cells with other filters', () => {
+    const search = GeoSearch.from(testGyms);
+    const hash = encodeGeohash(CALGARY_CENTER.lat, CALGARY_CENTER.lng, 4);
+    const expected = search
+      .near(CALGARY_CENTER, 5)
+      .where('rating', 'greaterThan', 4)
+      .execute()
+      .map((r) => r.id)
+      .sort();
+
+    const results = search
+      .near(CALGARY_CENTER, 5)
+      .withinGeohash(hash)
+      .where('rating', 'greaterThan', 4)
+      .execute();
+    expect(results.map((r) => r.id).sort()).toEqual(expected);
+
+    const elsewhere = search.near(CALGARY_CENTER, 5).withinGeohash('u4pr').execute();
+    expect(elsewhere).toEqual([]);
+  });
+
+  it('should count matches per geohash cell', () => {
+    const search = GeoSearch.from(testGyms);
+    const counts = search.where('rating', 'greaterThan', 4).groupByGeohash(5);
+    const expected = testGyms.filter((gym) => gym.rating > 4);
+
+    expect(Object.values(counts).reduce((sum, count) => sum + count, 0)).toBe(expected.length);
+    for (const gym of expected) {
+      expect(counts[encodeGeohash(gym.lat, gym.lng, 5)]).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('tile queries and vector tiles', () => {
+  // Minimal protobuf reader - just enough to check the encoder's output
+  type PbfField = { field: number; value: number | Uint8Array };
+
+  function readFields(bytes: Uint8Array): PbfField[] {
+    const fields: PbfField[] = [];
+    let pos = 0;
+    const varint = () => {
+      let result = 0;
+      let shift = 1;
+      let byte: number;
+      do {
+        byte = bytes[pos++]!;
+        result += (byte & 0x7f) * shift;
+        shift *= 128;
+      } while (byte & 0x80);
+      return result;
+    };
+    while (pos < bytes.length) {
+      const tag = varint();
+      const wire = tag & 7;
+      if (wire === 0) {
+        fields.push({ field: tag >> 3, value: varint() });
+      } else if (wire === 1) {
+        fields.push({ field: tag >> 3, value: bytes.slice(pos, pos + 8) });
+        pos += 8;
+      } else {
+        const length = varint();
+        fields.push({ field: tag >> 3, value: bytes.slice(pos, pos + length) });
+        pos += length;
+      }
+    }
+    return fields;
+  }
+
+  const zigzag = (n: number) => (n % 2 === 1 ? -(n + 1) / 2 : n / 2);
+  const text = (value: number | Uint8Array) => new TextDecoder().decode(value as Uint8Array);
+  function unpack(bytes: Uint8Array): number[] {
+    // Packed repeated varints: no tags, just values back to back
+    const values: number[] = [];
+    let pos = 0;
+    while (pos < bytes.length) {
+      let result = 0;
+      let shift = 1;
+      let byte: number;
+      do {
+        byte = bytes[pos++]!;
+        result += (byte & 0x7f) * shift;
+        shift *= 128;
+      } while (byte & 0x80);
+      values.push(result);
+    }
+    return values;
+  }
+
+  function decodeValue(bytes: Uint8Array): unknown {
+    const [{ field, value }] = readFields(bytes) as [PbfField];
+    if (field === 1) return text(value);
+    if (field === 3) return new DataView((value as Uint8Array).buffer).getFloat64(0, true);
+    if (field === 5) return value;
+    if (field === 6) return zigzag(value as number);
+    if (field === 7) return value === 1;
+    throw new Error(`Unexpected value field ${field}`);
+  }
+
+  function decodeTile(buffer: Uint8Array) {
+    const layers = readFields(buffer).filter((f) => f.field === 3);
+    return layers.map(({ value }) => {
+      const fields = readFields(value as Uint8Array);
+      const keys = fields.filter((f) => f.field === 3).map((f) => text(f.value));
+      const values = fields
+        .filter((f) => f.field === 4)
+        .map((f) => decodeValue(f.value as Uint8Array));
+      const features = fields
+        .filter((f) => f.field === 2)
+        .map((f) => {
+          const featureFields = readFields(f.value as Uint8Array);
+          const tagField = featureFields.find((ff) => ff.field === 2);
+          const tags = tagField ? unpack(tagField.value as Uint8Array) : [];
+          const geometry = unpack(featureFields.find((ff) => ff.field === 4)!.value as Uint8Array);
+          const properties: Record<string, unknown> = {};
+          for (let i = 0; i < tags.length; i += 2) {
+            properties[keys[tags[i]!]!] = values[tags[i + 1]!];
+          }
+          return {
+            type: featureFields.find((ff) => ff.field === 3)!.value,
+            command: geometry[0],
+            x: zigzag(geometry[1]!),
+            y: zigzag(geometry[2]!),
+            properties,
+          };
+        });
+      return {
+        version: fields.find((f) => f.field === 15)!.value,
+        name: text(fields.find((f) => f.field === 1)!.value),
+        extent: fields.find((f) => f.field === 5)!.value,
+        features,
+      };
+    });
+  }
+
+  // Zoom 12 tile containing downtown Calgary
+  const tile = { z: 12, x: 750, y: 1370 };
+
+  it('should compute tile bounds', () => {
+    expect(tileToBounds(0, 0, 0)).toEqual({
+      minLat: expect.closeTo(-85.0511, 4) as number,
+      maxLat: expect.closeTo(85.0511, 4) as number,
+      minLng: -180,
+      maxLng: 180,
+    });
+
+    const bounds = tileToBounds(tile.z, tile.x, tile.y);
+    expect(isPointInBounds(CALGARY_CENTER, bounds)).toBe(true);
+
+    const buffered = tileToBounds(tile.z, tile.x, tile.y, 64);
+    const width = bounds.maxLng - bounds.minLng;
+    expect(buffered.maxLng - buffered.minLng).toBeCloseTo(width * 1.5, 9);
+  });
+
+  it('should reject tiles outside the zoom level', () => {
+    expect(() => tileToBounds(2, 4, 0)).toThrow('out of range');
+    expect(() => tileToBounds(-1, 0, 0)).toThrow('zoom');
+  });
+
+  it.each([false, true])('should filter items to a tile (static: %s)', (isStatic) => {
+    const search = GeoSearch.from(testGyms, { static: isStatic });
+    const bounds = tileToBounds(tile.z, tile.x, tile.y);
+    const expected = testGyms.filter((gym) => isPointInBounds(gym, bounds)).map((gym) => gym.id);
+
+    const results = search.withinTile(tile.z, tile.x, tile.y).execute();
+    expect(results.map((r) => r.id).sort()).toEqual(expected.sort());
+    expect(expected.length).toBeGreaterThan(0);
+  });
+
+  it('should include buffered neighbors', () => {
+    const search = GeoSearch.from(testGyms);
+    const plain = search.withinTile(tile.z, tile.x, tile.y).execute();
+    const buffered = search.withinTile(tile.z, tile.x, tile.y, { bufferPx: 256 }).execute();
+    expect(buffered.length).toBeGreaterThanOrEqual(plain.length);
+  });
+
+  it('should encode matches as a vector tile', () => {
+    const search = GeoSearch.from(testGyms);
+    const query = search.withinTile(tile.z, tile.x, tile.y).where('rating', 'greaterThan', 4);
+    const buffer = query.toVectorTile({
+      layerName: 'gyms',
+      properties: ['name', 'rating', 'price'],
+    });
+
+    const [layer] = decodeTile(buffer);
+    const matches = query.execute();
+    expect(layer!.version).toBe(2);
+    expect(layer!.name).toBe('gyms');
+    expect(layer!.extent).toBe(4096);
+    expect(layer!.features).toHaveLength(matches.length);
+
+    for (const feature of layer!.features) {
+      const gym = matches.find((m) => m.name === feature.properties.name)!;
+      expect(feature.type).toBe(1);
+      expect(feature.command).toBe(9);
+      expect(feature.properties).toEqual({ name: gym.name, rating: gym.rating, price: gym.price });
+      expect(feature.x).toEqual(projectToTile(gym, tile, 4096).x);
+      expect(feature.x).toBeGreaterThanOrEqual(0);
+      expect(feature.x).toBeLessThanOrEqual(4096);
+      expect(feature.y).toBeGreaterThanOrEqual(0);
+      expect(feature.y).toBeLessThanOrEqual(4096);
+    }
+  });
+
+  it('should encode computed properties of every scalar type', () => {
+    const search = GeoSearch.from([testGyms[0]!]);
+    const buffer = search.withinTile(tile.z, tile.x, tile.y).toVectorTile({
+      extent: 512,
+      properties: (gym) => ({
+        label: gym.name,
+        delta: -3,
+        ratio: 0.25,
+        open: true,
+        tags: gym.tags,
+        missing: undefined,
+      }),
+    });
+
+    const [layer] = decodeTile(buffer);
+    expect(layer!.name).toBe('points');
+    expect(layer!.extent).toBe(512);
+    expect(layer!.features[0]!.properties).toEqual({
+      label: testGyms[0]!.name,
+      delta: -3,
+      ratio: 0.25,
+      open: true,
+      tags: JSON.stringify(testGyms[0]!.tags),
+    });
+  });
+
+  it('should place points across the antimeridian in buffered edge tiles', () => {
+    // Easternmost tile at zoom 3, with a point just west of -180 on the other side
+    const east = { z: 3, x: 7, y: 3 };
+    const point = { lat: 10, lng: -179.9 };
+    const projected = projectToTile(point, east, 4096);
+    expect(projected.x).toBeGreaterThan(4096);
+    expect(projected.x).toBeLessThan(4096 + 64);
+
+    const search = GeoSearch.from([{ ...testGyms[0]!, ...point }]);
+    expect(search.withinTile(east.z, east.x, east.y, { bufferPx: 16 }).execute()).toHaveLength(1);
+    expect(search.withinTile(east.z, east.x, east.y).execute()).toHaveLength(0);
+  });
+
+  it('should require withinTile() before toVectorTile()', () => {
+    expect(() => GeoSearch.from(testGyms).query().toVectorTile()).toThrow('withinTile()');
+  });
+});
+
+describe('GeoJSON import and export', () => {
+  interface StoreProps {
+    id: string;
+    name: string;
+    rating: number;
+  }
+
+  const collection: GeoJSONFeatureCollection<StoreProps> = {
+    type: 'FeatureCollection',
+    features: testGyms.map((gym) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [gym.lng, gym.lat] },
+      properties: { id: gym.id, name: gym.name, rating: gym.rating },
+    })),
+  };
+
+  it('should load Point features with properties and coordinates', () => {
+    const search = GeoSearch.fromGeoJSON(collection, { static: true });
+    expect(search.size).toBe(testGyms.length);
+
+    const results = search.near(CALGARY_CENTER, 5).where('rating', 'greaterThan', 4).execute();
+    const expected = GeoSearch.from(testGyms)
+      .near(CALGARY_CENTER, 5)
+      .where('rating', 'greaterThan', 4)
+      .execute();
+    expect(results.map((r) => r.id).sort()).toEqual(expected.map((r) => r.id).sort());
+    expect(results[0]).toHaveProperty('name');
+  });
+
+  it('should throw on invalid features by default', () => {
+    const broken = {
+      type: 'FeatureCollection' as const,
+      features: [
+        ...collection.features,
+        { type: 'Feature' as const, geometry: null, properties: null },
+      ],
+    };
+    expect(() => GeoSearch.fromGeoJSON(broken)).toThrow(
+      `feature ${collection.features.length}: missing geometry`
+    );
+    expect(() => GeoSearch.fromGeoJSON({ type: 'Feature' } as never)).toThrow('FeatureCollection');
+  });
+
+  it('should report invalid and non-Point features when asked', () => {
+    const issues: InvalidGeoJSONFeature[] = [];
+    const mixed = {
+      type: 'FeatureCollection' as const,
+      features: [
+        collection.features[0]!,
+        {
+          type: 'Feature' as const,
+          geometry: {
+            type: 'LineString',
+            coordinates: [
+              [0, 0],
+              [1, 1],
+            ],
+          },
+          properties: { id: 'line', name: 'Line', rating: 1 },
+        },
+        {
+          type: 'Feature' as const,
+          geometry: { type: 'Point', coordinates: [200, 10] },
+          properties: { id: 'far', name: 'Far', rating: 1 },
+        },
+        {
+          type: 'Feature' as const,
+          geometry: { type: 'Point', coordinates: ['-114', '51'] },
+          properties: { id: 'text', name: 'Text', rating: 1 },
+        },
+      ],
+    };
+
+    const search = GeoSearch.fromGeoJSON(mixed, {
+      onInvalidFeature: (issue) => issues.push(issue),
+    });
+
+    expect(search.size).toBe(1);
+    expect(issues.map((issue) => issue.index)).toEqual([1, 2, 3]);
+    expect(issues[0]!.reason).toContain("'LineString'");
+    expect(issues[1]!.reason).toContain('out of range');
+    expect(issues[2]!.reason).toContain('finite numbers');
+    expect(issues[0]!.feature).toBe(mixed.features[1]);
+  });
+
+  it('should export query results as Point features', () => {
+    const search = GeoSearch.from(testGyms);
+    const query = search
+      .near(CALGARY_CENTER, 5)
+      .sortBy([{ field: 'distance', order: 'asc' }])
+      .limit(3);
+    const geojson = query.toGeoJSON();
+    const items = query.execute();
+
+    expect(geojson.type).toBe('FeatureCollection');
+    expect(geojson.features).toHaveLength(items.length);
+    geojson.features.forEach((feature, i) => {
+      const item = items[i]!;
+      expect(feature.geometry).toEqual({ type: 'Point', coordinates: [item.lng, item.lat] });
+      expect(feature.properties.distance).toBe(item.distance);
+      expect(feature.properties.name).toBe(item.name);
+      expect(feature.properties).not.toHaveProperty('lat');
+      expect(feature.properties).not.toHaveProperty('score');
+    });
+  });
+
+  it('should include scores in exported properties', () => {
+    const geojson = GeoSearch.from(testGyms)
+      .query()
+      .score((gym) => gym.rating * 2)
+      .sortBy([{ field: 'rating', order: 'desc' }])
+      .toGeoJSON();
+
+    expect(geojson.features[0]!.properties.score).toBe(
+      Math.max(...testGyms.map((g) => g.rating)) * 2
+    );
+    expect(geojson.features[0]!.properties).not.toHaveProperty('distance');
+  });
+
+  it('should round-trip through GeoJSON', () => {
+    const exported = GeoSearch.fromGeoJSON(collection).query().toGeoJSON();
+    const reloaded = GeoSearch.fromGeoJSON(exported);
+    expect(reloaded.size).toBe(testGyms.length);
+    expect(reloaded.query().toGeoJSON()).toEqual(exported);
+  });
+});
+
+describe('coordinate accessors', () => {
+  interface FlatRecord {
+    id: string;
+    latitude: number;
+    longitude: number;
+    rating: number;
+  }
+  interface NestedRecord {
+    id: string;
+    location: { type: 'Point'; coordinates: [number, number] };
+    address: { geo: { lat: number; lng: number } };
+  }
+
+  const flat: FlatRecord[] = testGyms.map((gym) => ({
+    id: gym.id,
+    latitude: gym.lat,
+    longitude: gym.lng,
+    rating: gym.rating,
+  }));
+  const nested: NestedRecord[] = testGyms.map((gym) => ({
+    id: gym.id,
+    location: { type: 'Point', coordinates: [gym.lng, gym.lat] },
+    address: { geo: { lat: gym.lat, lng: gym.lng } },
+  }));
+
+  const expectedIds = (radiusKm: number) =>
+    GeoSearch.from(testGyms)
+      .near(CALGARY_CENTER, radiusKm)
+      .execute()
+      .map((r) => r.id)
+      .sort();
+
+  it.each([false, true])('should read lat/lng from field names (static: %s)', (isStatic) => {
+    const search = GeoSearch.from(flat, {
+      static: isStatic,
+      latField: 'latitude',
+      lngField: 'longitude',
+    });
+    const results = search.near(CALGARY_CENTER, 5).execute();
+
+    expect(results.map((r) => r.id).sort()).toEqual(expectedIds(5));
+    const gym = testGyms.find((g) => g.id === results[0]!.id)!;
+    expect(results[0]!.distance).toBeCloseTo(haversineDistance(CALGARY_CENTER, gym), 9);
+  });
+
+  it('should follow dot paths, including array indices', () => {
+    const byArray = GeoSearch.from(nested, {
+      latField: 'location.coordinates.1',
+      lngField: 'location.coordinates.0',
+    });
+    const byObject = GeoSearch.from(nested, {
+      latField: 'address.geo.lat',
+      lngField: 'address.geo.lng',
+    });
+
+    expect(
+      byArray
+        .near(CALGARY_CENTER, 5)
+        .execute()
+        .map((r) => r.id)
+        .sort()
+    ).toEqual(expectedIds(5));
+    expect(
+      byObject
+        .near(CALGARY_CENTER, 5)
+        .execute()
+        .map((r) => r.id)
+        .sort()
+    ).toEqual(expectedIds(5));
+  });
+
+  it.each([false, true])('should use a getCoordinates function (static: %s)', (isStatic) => {
+    const search = GeoSearch.from(nested, {
+      static: isStatic,
+      getCoordinates: (record) => record.address.geo,
+    });
+
+    const nearest = search.nearest(CALGARY_CENTER, 2).execute();
+    const expected = GeoSearch.from(testGyms).nearest(CALGARY_CENTER, 2).execute();
+    expect(nearest.map((r) => r.id)).toEqual(expected.map((r) => r.id));
+
+    const bounds = { minLat: 51.0, maxLat: 51.1, minLng: -114.2, maxLng: -114.0 };
+    expect(
+      search
+        .withinBounds(bounds)
+        .execute()
+        .map((r) => r.id)
+        .sort()
+    ).toEqual(
+      GeoSearch.from(testGyms)
+        .withinBounds(bounds)
+        .execute()
+        .map((r) => r.id)
+        .sort()
+    );
+  });
+
+  it('should support add/remove, polygons, clusters and density', () => {
+    const search = GeoSearch.from<FlatRecord>([], { latField: 'latitude', lngField: 'longitude' });
+    search.addMany(flat);
+    search.remove(flat[0]!);
+    expect(search.size).toBe(flat.length - 1);
+
+    const zone = [
+      { lat: 51.0, lng: -114.2 },
+      { lat: 51.1, lng: -114.2 },
+      { lat: 51.1, lng: -113.9 },
+      { lat: 51.0, lng: -113.9 },
+    ];
+    const inZone = search.withinPolygon(zone).execute();
+    expect(inZone.length).toBeGreaterThan(0);
+
+    const world = { minLat: -90, maxLat: 90, minLng: -180, maxLng: 180 };
+    const clusters = search.cluster(world, 0);
+    const total = clusters.reduce((sum, c) => sum + (c.type === 'cluster' ? c.count : 1), 0);
+    expect(total).toBe(flat.length - 1);
+
+    const density = search.query().density({ bounds: world, geohashPrecision: 3 });
+    expect(density.total).toBe(flat.length - 1);
+  });
+
+  it('should export custom-coordinate items to GeoJSON without dropping fields', () => {
+    const search = GeoSearch.from(flat, { latField: 'latitude', lngField: 'longitude' });
+    const [feature] = search.near(CALGARY_CENTER, 50).limit(1).toGeoJSON().features;
+    const record = flat.find((r) => r.id === feature!.properties.id)!;
+
+    expect(feature!.geometry.coordinates).toEqual([record.longitude, record.latitude]);
+    expect(feature!.properties.latitude).toBe(record.latitude);
+  });
+
+  it('should reject conflicting or half-specified accessors', () => {
+    expect(() => GeoSearch.from(flat, { latField: 'latitude' } as never)).toThrow(
+      'latField and lngField must be set together'
+    );
+    expect(
+      () =>
+        new GeoSearch(flat, {
+          getCoordinates: (r) => ({ lat: r.latitude, lng: r.longitude }),
+          latField: 'latitude',
+          lngField: 'longitude',
+        })
+    ).toThrow('either getCoordinates or latField/lngField');
+  });
+});
+
+describe('index serialization', () => {
+  const points = Array.from({ length: 500 }, (_, i) => ({
+    id: String(i),
+    lat: 50 + (i % 25) * 0.1,
+    lng: -115 + Math.floor(i / 25) * 0.1,
+  }));
+  const center = { lat: 51.03, lng: -114.02 };
+
+  const snapshotOf = (search: GeoSearch<(typeof points)[number]>) => ({
+    radius: search
+      .near(center, 20)
+      .execute()
+      .map((r) => r.id)
+      .sort(),
+    nearest: search
+      .nearest(center, 7)
+      .execute()
+      .map((r) => r.id),
+    bounds: search
+      .withinBounds({ minLat: 50.5, maxLat: 51, minLng: -114.5, maxLng: -113.5 })
+      .execute()
+      .map((r) => r.id)
+      .sort(),
+  });
+
+  it.each([false, true])('should round-trip an index (static: %s)', (isStatic) => {
+    const original = GeoSearch.from(points, { static: isStatic });
+    const buffer = original.serialize();
+    expect(buffer).toBeInstanceOf(ArrayBuffer);
+
+    const restored = GeoSearch.deserialize(buffer, points);
+    expect(restored.size).toBe(points.length);
+    expect(snapshotOf(restored)).toEqual(snapshotOf(original));
+  });
+
+  it('should read every item coordinate once when restoring', () => {
+    let reads = 0;
+    const options = {
+      static: true,
+      getCoordinates: (item: (typeof points)[number]) => {
+        reads++;
+        return item;
+      },
+    };
+    const buffer = GeoSearch.from(points, options).serialize();
+
+    reads = 0;
+    GeoSearch.deserialize(buffer, points, options);
+    expect(reads).toBe(points.length);
+  });
+
+  it('should reject static items other than the loaded array', () => {
+    const buffer = GeoSearch.from(points, { static: true }).serialize();
+    const moved = points.map((p, i) => (i === 250 ? { ...p, lat: p.lat + 0.01 } : p));
+
+    for (const items of [[...points].reverse(), moved]) {
+      expect(() => GeoSearch.deserialize(buffer, items)).toThrow(
+        'Snapshot positions do not match the items given.'
+      );
+    }
+  });
+
+  it('should accept a Node Buffer or other view over the snapshot', () => {
+    const buffer = GeoSearch.from(points, { static: true }).serialize();
+    const padded = new Uint8Array(buffer.byteLength + 3);
+    padded.set(new Uint8Array(buffer), 3);
+
+    const restored = GeoSearch.deserialize(padded.subarray(3), points);
+    expect(restored.near(center, 20).execute()).toHaveLength(
+      GeoSearch.from(points).near(center, 20).execute().length
+    );
+  });
+
+  it('should survive structured cloning, as postMessage does', () => {
+    const buffer = structuredClone(GeoSearch.from(points).serialize());
+    const restored = GeoSearch.deserialize(buffer, points);
+    expect(
+      restored
+        .nearest(center, 3)
+        .execute()
+        .map((r) => r.id)
+    ).toEqual(
+      GeoSearch.from(points)
+        .nearest(center, 3)
+        .execute()
+        .map((r) => r.id)
+    );
+  });
+
+  it('should keep a restored dynamic index mutable', () => {
+    const restored = GeoSearch.deserialize(GeoSearch.from(points).serialize(), points);
+    const added = { id: 'new', lat: center.lat, lng: center.lng };
+
+    restored.add(added);
+    expect(restored.nearest(center, 1).execute()[0]!.id).toBe('new');
+    expect(restored.remove(points[0]!)).toBe(true);
+    expect(restored.size).toBe(points.length);
+  });
+
+  it('should refer to dynamic items by insertion order', () => {
+    const search = GeoSearch.from(points.slice(0, 10));
+    search.remove(points[3]!);
+    search.add(points[10]!);
+    const remaining = [...points.slice(0, 3), ...points.slice(4, 11)];
+
+    const restored = GeoSearch.deserialize(search.serialize(), remaining);
+    expect(
+      restored
+        .all()
+        .map((p) => p.id)
+        .sort()
+    ).toEqual(remaining.map((p) => p.id).sort());
+    expect(restored.nearest(points[10]!, 1).execute()[0]!.id).toBe('10');
+  });
+
+  it('should also accept dynamic items as all() returns them', () => {
+    const search = GeoSearch.from(points.slice(0, 199));
+    const buffer = search.serialize();
+    const restored = GeoSearch.deserialize(buffer, search.all());
+
+    for (const item of points.slice(0, 199)) {
+      expect(restored.nearest(item, 1).execute()[0]!.id).toBe(item.id);
+    }
+    // Insertion order survives, so ties sort the same
+    expect(restored.sortBy([{ field: 'lat', order: 'asc' }]).execute()).toEqual(
+      search.sortBy([{ field: 'lat', order: 'asc' }]).execute()
+    );
+  });
+
+  it('should reject dynamic items in any other order', () => {
+    const search = GeoSearch.from(points.slice(0, 199));
+    const shuffled = [...search.all()].reverse();
+    expect(() => GeoSearch.deserialize(search.serialize(), shuffled)).toThrow(
+      'Snapshot positions do not match the items given.'
+    );
+  });
+
+  it('should round-trip an empty index', () => {
+    for (const isStatic of [false, true]) {
+      const restored = GeoSearch.deserialize(
+        GeoSearch.from<GeoPoint>([], { static: isStatic }).serialize(),
+        []
+      );
+      expect(restored.size).toBe(0);
+      expect(restored.near(center, 100).execute()).toEqual([]);
+    }
+  });
+
+  it('should reject a different number of items', () => {
+    const buffer = GeoSearch.from(points).serialize();
+    expect(() => GeoSearch.deserialize(buffer, points.slice(1))).toThrow(
+      'Snapshot was taken with 500 items but 499 were given.'
+    );
+  });
+
+  it('should reject options.static that contradicts the snapshot', () => {
+    const buffer = GeoSearch.from(points, { static: true }).serialize();
+    expect(() => GeoSearch.deserialize(buffer, points, { static: false })).toThrow(
+      'Snapshot is of a static index but options.static is false.'
+    );
+  });
+
+  it('should reject data that is not a snapshot', () => {
+    expect(() => GeoSearch.deserialize(new ArrayBuffer(32), points)).toThrow(
+      'Not a GeoSearch index snapshot.'
+    );
+    const truncated = GeoSearch.from(points).serialize().slice(0, 200);
+    expect(() => GeoSearch.deserialize(truncated, points)).toThrow('Snapshot is corrupt');
+  });
+});
+
+describe('worker offloading', () => {
+  // Both ends of a MessageChannel in this thread - the same port API a
+  // worker's parentPort has, without the cost of spawning a thread per test
+  const connect = <T extends object>() => {
+    const { port1, port2 } = new MessageChannel();
+    new GeoSearchWorker<T>(port1);
+    const client = new GeoSearchClient<T>(port2);
+    return {
+      client,
+      close: () => {
+        client.terminate();
+        port1.close();
+      },
+    };
+  };
+
+  it('should run a query chain in the worker and return metadata', async () => {
+    const { client, close } = connect<TestLocation>();
+    try {
+      expect(await client.load(testGyms)).toBe(testGyms.length);
+
+      const { items, metadata } = await client
+        .near(CALGARY_CENTER, 5)
+        .where('rating', 'greaterThan', 4)
+        .sortBy([{ field: 'rating', order: 'desc' }])
+        .limit(2)
+        .executeWithMetadata();
+
+      const local = GeoSearch.from(testGyms)
+        .near(CALGARY_CENTER, 5)
+        .where('rating', 'greaterThan', 4)
+        .sortBy([{ field: 'rating', order: 'desc' }])
+        .limit(2)
+        .executeWithMetadata();
+      expect(items).toEqual(local.items);
+      expect(metadata.totalMatches).toBe(local.metadata.totalMatches);
+      expect(metadata.nextCursor).toBe(local.metadata.nextCursor);
+    } finally {
+      close();
+    }
+  });
+
+  it('should resolve execute() to the items alone', async () => {
+    const { client, close } = connect<TestLocation>();
+    try {
+      await client.load(testGyms, { static: true });
+      const results = await client.nearest(CALGARY_CENTER, 2).execute();
+      expect(results.map((r) => r.id)).toEqual(['1', '4']);
+      expect(results[0]!.distance).toBeGreaterThan(0);
+    } finally {
+      close();
+    }
+  });
+
+  it('should restore a snapshot in the worker', async () => {
+    const { client, close } = connect<TestLocation>();
+    try {
+      const snapshot = GeoSearch.from(testGyms, { static: true }).serialize();
+      expect(await client.restore(snapshot, testGyms)).toBe(testGyms.length);
+      // Transferred, not copied
+      expect(snapshot.byteLength).toBe(0);
+
+      const results = await client.withinBounds(tileToBounds(0, 0, 0)).execute();
+      expect(results).toHaveLength(testGyms.length);
+    } finally {
+      close();
+    }
+  });
+
+  it('should add items to a dynamic index', async () => {
+    const { client, close } = connect<TestLocation>();
+    try {
+      await client.load(testGyms.slice(0, 2));
+      expect(await client.addMany(testGyms.slice(2))).toBe(testGyms.length);
+      expect(await client.query().execute()).toHaveLength(testGyms.length);
+    } finally {
+      close();
+    }
+  });
+
+  it('should reject with errors thrown in the worker', async () => {
+    const { client, close } = connect<TestLocation>();
+    try {
+      await client.load(testGyms);
+      await expect(client.query().after('not-a-cursor').execute()).rejects.toThrow(
+        'after() requires sortBy()'
+      );
+      await expect(client.query().withinGeohash([]).execute()).rejects.toThrow(
+        'withinGeohash() needs at least one geohash.'
+      );
+    } finally {
+      close();
+    }
+  });
+
+  it('should cancel a query superseded on the same channel', async () => {
+    const { client, close } = connect<TestLocation>();
+    try {
+      await client.load(testGyms);
+      const first = client.near(CALGARY_CENTER, 2).execute({ channel: 'viewport' });
+      const second = client.near(CALGARY_CENTER, 50).execute({ channel: 'viewport' });
+      const other = client.near(CALGARY_CENTER, 1).execute({ channel: 'sidebar' });
+
+      await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+      expect(await second).toHaveLength(testGyms.length);
+      expect(await other).toHaveLength(
+        GeoSearch.from(testGyms).near(CALGARY_CENTER, 1).execute().length
+      );
+    } finally {
+      close();
+    }
+  });
+
+  it('should cancel a query when its signal aborts', async () => {
+    const { client, close } = connect<TestLocation>();
+    try {
+      await client.load(testGyms);
+      const controller = new AbortController();
+      const pending = client.query().execute({ signal: controller.signal });
+      controller.abort();
+      await expect(pending).rejects.toThrow('Query was cancelled.');
+
+      await expect(client.query().execute({ signal: controller.signal })).rejects.toMatchObject({
+        name: 'AbortError',
+      });
+      expect(await client.query().execute()).toHaveLength(testGyms.length);
+    } finally {
+      close();
+    }
+  });
+
+  it('should reject pending and later requests after terminate()', async () => {
+    const { client, close } = connect<TestLocation>();
+    const pending = client.load(testGyms);
+    close();
+    await expect(pending).rejects.toThrow('GeoSearchClient was terminated.');
+    await expect(client.query().execute()).rejects.toThrow('GeoSearchClient was terminated.');
+  });
+
+  it('should reject pending and later requests when the worker dies', async () => {
+    const worker = new Worker(
+      "require('node:worker_threads').parentPort.on('message', () => { throw new Error('boom'); });",
+      { eval: true }
+    );
+    const exited = new Promise((resolve) => worker.once('exit', resolve));
+    const client = new GeoSearchClient<TestLocation>(worker);
+
+    await expect(client.load(testGyms)).rejects.toThrow('boom');
+    await exited;
+    await expect(client.query().execute()).rejects.toThrow('Worker exited with code 1.');
+  }, 20000);
+
+  it('should reject pending requests on a browser-style worker error', async () => {
+    const target = new EventTarget();
+    const endpoint = Object.assign(target, { postMessage: () => {} });
+    const client = new GeoSearchClient<TestLocation>(endpoint as unknown as WorkerEndpoint);
+
+    const pending = client.load(testGyms);
+    target.dispatchEvent(Object.assign(new Event('error'), { message: 'script failed' }));
+    await expect(pending).rejects.toThrow('script failed');
+
+    const next = client.query().execute();
+    target.dispatchEvent(new Event('messageerror'));
+    await expect(next).rejects.toThrow('Worker message could not be deserialized.');
+  });
+
+  it('should run in a worker_threads Worker', async () => {
+    const worker = new Worker(new URL('./fixtures/geoSearchWorker.mjs', import.meta.url));
+    const client = new GeoSearchClient<TestLocation>(worker);
+    try {
+      await client.load(testGyms);
+      const results = await client.near(CALGARY_CENTER, 5).execute();
+      expect(results.map((r) => r.id).sort()).toEqual(
+        GeoSearch.from(testGyms)
+          .near(CALGARY_CENTER, 5)
+          .execute()
+          .map((r) => r.id)
+          .sort()
+      );
+    } finally {
+      client.terminate();
+    }
+  }, 20000);
+});
+
+describe('streaming', () => {
+  const points = Array.from({ length: 500 }, (_, i) => ({
+    id: String(i),
+    lat: 50 + (i % 25) * 0.1,
+    lng: -115 + Math.floor(i / 25) * 0.1,
+    even: i % 2 === 0,
+  }));
+  const center = { lat: 51.03, lng: -114.02 };
+
+  const counting = () => {
+    const counter = { reads: 0 };
+    const getCoordinates = (item: (typeof points)[number]) => {
+      counter.reads++;
+      return item;
+    };
+    return { counter, getCoordinates };
+  };
+
+  it.each([false, true])('should yield radius matches nearest first (static: %s)', (isStatic) => {
+    const search = GeoSearch.from(points, { static: isStatic });
+    const streamed = [...search.near(center, 30).where('even', 'equals', true).stream()];
+    const expected = search
+      .near(center, 30)
+      .where('even', 'equals', true)
+      .sortBy([{ field: 'distance', order: 'asc' }])
+      .execute();
+
+    expect(streamed.map((r) => r.id).sort()).toEqual(expected.map((r) => r.id).sort());
+    for (let i = 1; i < streamed.length; i++) {
+      expect(streamed[i]!.distance).toBeGreaterThanOrEqual(streamed[i - 1]!.distance);
+    }
+  });
+
+  it.each([false, true])(
+    'should match execute() when spatial filters are combined (static: %s)',
+    (isStatic) => {
+      const search = GeoSearch.from(points, { static: isStatic });
+      const bounds = { minLat: 50.5, maxLat: 51.5, minLng: -114.5, maxLng: -113.8 };
+      const queries = [
+        search.near(center, 40).withinBounds(bounds),
+        search.withinBounds(bounds).where('even', 'equals', true),
+        search.withinBounds(bounds).withinPolygon([
+          { lat: 50.6, lng: -114.4 },
+          { lat: 51.4, lng: -114.4 },
+          { lat: 51.0, lng: -113.9 },
+        ]),
+      ];
+
+      for (const query of queries) {
+        const streamed = [...query.stream()].map((r) => r.id).sort();
+        expect(streamed.length).toBeGreaterThan(0);
+        expect(streamed).toEqual(
+          query
+            .execute()
+            .map((r) => r.id)
+            .sort()
+        );
+      }
+    }
+  );
+
+  it.each([false, true])('should order by the configured metric (static: %s)', (isStatic) => {
+    const search = GeoSearch.from(points, { static: isStatic, distance: 'vincenty' });
+    const streamed = [...search.near(center, 40).stream()];
+    const expected = search
+      .near(center, 40)
+      .sortBy([{ field: 'distance', order: 'asc' }])
+      .execute();
+    expect(streamed.map((r) => r.distance)).toEqual(expected.map((r) => r.distance));
+  });
+
+  it.each([false, true])(
+    'should stop scanning when the consumer breaks out (static: %s)',
+    (isStatic) => {
+      const { counter, getCoordinates } = counting();
+      const search = GeoSearch.from(points, { static: isStatic, getCoordinates });
+
+      counter.reads = 0;
+      const first: string[] = [];
+      for (const item of search.query().where('even', 'equals', true).stream()) {
+        first.push(item.id);
+        if (first.length === 3) break;
+      }
+      expect(first).toHaveLength(3);
+      expect(counter.reads).toBeLessThan(10);
+
+      counter.reads = 0;
+      const nearest = search.near(center, 100).stream()[Symbol.iterator]().next();
+      expect(nearest.done).toBe(false);
+      expect(counter.reads).toBeLessThan(points.length / 2);
+    }
+  );
+
+  it.each([false, true, 'hybrid' as const])(
+    'should walk the tree only as far as the consumer pulls (static: %s)',
+    (mode) => {
+      const { counter, getCoordinates } = counting();
+      const search = GeoSearch.from(points, { static: mode, getCoordinates });
+      const viewport = { minLat: 50, maxLat: 52, minLng: -115, maxLng: -113.5 };
+      const queries = [
+        search.withinBounds(viewport),
+        search.withinTile(6, 11, 21),
+        search.query().where('even', 'equals', true),
+      ];
+      // The whole-array lookups scanning used to start from
+      const bulkLookups = [
+        vi.spyOn(RBush.prototype, 'search'),
+        vi.spyOn(RBush.prototype, 'all'),
+        vi.spyOn(KDBush.prototype, 'range'),
+      ];
+
+      try {
+        for (const query of queries) {
+          counter.reads = 0;
+          expect(query.stream()[Symbol.iterator]().next().done).toBe(false);
+          expect(counter.reads).toBeLessThan(10);
+        }
+        for (const spy of bulkLookups) {
+          expect(spy).not.toHaveBeenCalled();
+        }
+      } finally {
+        bulkLookups.forEach((spy) => spy.mockRestore());
+      }
+
+      expect([...search.withinBounds(viewport).stream()]).toEqual(
+        search.withinBounds(viewport).execute()
+      );
+      expect([...search.query().stream()]).toEqual(search.query().execute());
+    }
+  );
+
+  it('should apply offset, limit, units and score like execute()', () => {
+    const search = GeoSearch.from(points);
+    const query = search
+      .near(center, 20, { units: 'mi' })
+      .score((item, distance) => (item.even ? 1 : 0) - distance!)
+      .sortBy([{ field: 'distance', order: 'asc' }])
+      .offset(2)
+      .limit(4);
+
+    const streamed = [...query.stream()];
+    expect(streamed).toHaveLength(4);
+    expect(streamed.map((r) => r.distance)).toEqual(query.execute().map((r) => r.distance));
+    expect([...search.query().limit(0).stream()]).toEqual([]);
+  });
+
+  it('should add bearings for sector queries', () => {
+    const search = GeoSearch.from(points);
+    const streamed = [
+      ...search.near(center, 30, { sector: { fromBearing: 0, toBearing: 90 } }).stream(),
+    ] as Array<WithBearing<(typeof points)[number]>>;
+
+    expect(streamed.length).toBeGreaterThan(0);
+    for (const result of streamed) {
+      expect(result.bearing).toBeGreaterThanOrEqual(0);
+      expect(result.bearing).toBeLessThanOrEqual(90);
+    }
+  });
+
+  it('should fall back to the executed page for other sorts and cursors', () => {
+    const search = GeoSearch.from(testGyms);
+    const query = search
+      .near(CALGARY_CENTER, 10)
+      .sortBy([{ field: 'rating', order: 'desc' }])
+      .limit(2);
+    expect([...query.stream()]).toEqual(query.execute());
+
+    const cursor = query.executeWithMetadata().metadata.nextCursor!;
+    expect([...query.after(cursor).stream()]).toEqual(query.after(cursor).execute());
+    expect(() => [...search.query().after(cursor).stream()]).toThrow('after() requires sortBy()');
+  });
+
+  it('should support for await...of', async () => {
+    const search = GeoSearch.from(points, { static: true });
+    const ids: string[] = [];
+    for await (const item of search.withinBounds(tileToBounds(0, 0, 0)).stream()) {
+      ids.push(item.id);
+    }
+    expect(ids.sort()).toEqual(points.map((p) => p.id).sort());
+  });
+
+  it('should yield matching geohash items once', () => {
+    const search = GeoSearch.from(points);
+    const hashes = geohashNeighbors(encodeGeohash(center.lat, center.lng, 4));
+    const cells = [encodeGeohash(center.lat, center.lng, 4), ...Object.values(hashes)].filter(
+      (hash): hash is string => hash !== null
+    );
+
+    const streamed = [...search.withinGeohash(cells).stream()].map((r) => r.id);
+    expect(new Set(streamed).size).toBe(streamed.length);
+    expect(streamed.sort()).toEqual(
+      search
+        .withinGeohash(cells)
+        .execute()
+        .map((r) => r.id)
+        .sort()
+    );
+  });
+});
+
+describe('live queries', () => {
+  interface Vehicle extends GeoPoint {
+    id: string;
+    kind: string;
+  }
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+  const vehicle = (id: string, lat: number, lng: number, kind = 'bus'): Vehicle => ({
+    id,
+    lat,
+    lng,
+    kind,
+  });
+  const ids = (results: Vehicle[]) => results.map((r) => r.id).sort();
+
+  let search: GeoSearch<Vehicle>;
+  let fleet: Vehicle[];
+  beforeEach(() => {
+    fleet = [
+      vehicle('a', 51.045, -114.07),
+      vehicle('b', 51.05, -114.08),
+      vehicle('c', 51.2, -114.3, 'train'),
+    ];
+    search = GeoSearch.from(fleet);
+  });
+
+  it('should report added and removed items', async () => {
+    const deltas: Array<LiveQueryDelta<WithDistance<Vehicle>>> = [];
+    search.near(CALGARY_CENTER, 5).subscribe((delta) => deltas.push(delta));
+
+    const arriving = vehicle('d', 51.04, -114.06);
+    search.add(arriving);
+    search.remove(fleet[0]!);
+    await tick();
+
+    expect(deltas).toHaveLength(1);
+    expect(ids(deltas[0]!.added)).toEqual(['d']);
+    expect(deltas[0]!.added[0]!.distance).toBeGreaterThan(0);
+    expect(ids(deltas[0]!.removed)).toEqual(['a']);
+    expect(deltas[0]!.updated).toEqual([]);
+  });
+
+  it('should report an item moved within the results as updated', async () => {
+    const deltas: Array<LiveQueryDelta<WithDistance<Vehicle>>> = [];
+    search.near(CALGARY_CENTER, 5).subscribe((delta) => deltas.push(delta));
+
+    const moving = fleet[1]!;
+    search.remove(moving);
+    moving.lat = 51.046;
+    search.add(moving);
+    await tick();
+
+    expect(deltas).toHaveLength(1);
+    expect(deltas[0]!.added).toEqual([]);
+    expect(deltas[0]!.removed).toEqual([]);
+    expect(ids(deltas[0]!.updated)).toEqual(['b']);
+    expect(deltas[0]!.updated[0]!.distance).toBeCloseTo(haversineDistance(CALGARY_CENTER, moving));
+  });
+
+  it('should report an upsert of a re-fetched record as updated', async () => {
+    const tracked = GeoSearch.from(fleet, { idField: 'id' });
+    const deltas: Array<LiveQueryDelta<WithDistance<Vehicle>>> = [];
+    tracked.near(CALGARY_CENTER, 5).subscribe((delta) => deltas.push(delta));
+
+    // An identical copy changes nothing
+    tracked.upsert({ ...fleet[0]! });
+    await tick();
+    expect(deltas).toEqual([]);
+
+    tracked.upsert({ ...fleet[0]!, kind: 'tram' });
+    await tick();
+    expect(deltas).toHaveLength(1);
+    expect(deltas[0]!.added).toEqual([]);
+    expect(deltas[0]!.removed).toEqual([]);
+    expect(deltas[0]!.updated.map((r) => [r.id, r.kind])).toEqual([['a', 'tram']]);
+  });
+
+  it('should not re-run queries whose region the mutation misses', async () => {
+    let evaluations = 0;
+    const callback = vi.fn();
+    search
+      .near(CALGARY_CENTER, 5)
+      .score(() => {
+        evaluations++;
+        return 0;
+      })
+      .subscribe(callback);
+    evaluations = 0;
+
+    search.add(vehicle('far', 53.5, -113.5));
+    search.remove(fleet[2]!);
+    await tick();
+    expect(evaluations).toBe(0);
+
+    search.add(vehicle('near', 51.045, -114.071));
+    await tick();
+    expect(evaluations).toBeGreaterThan(0);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip deltas when attribute filters reject the change', async () => {
+    const callback = vi.fn();
+    search
+      .withinBounds(tileToBounds(10, 187, 337))
+      .where('kind', 'equals', 'train')
+      .subscribe(callback);
+    search.add(vehicle('e', 51.04, -114.06, 'bus'));
+    await tick();
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('should track the k nearest as items come and go', async () => {
+    const deltas: Array<LiveQueryDelta<WithDistance<Vehicle>>> = [];
+    search.nearest(CALGARY_CENTER, 2).subscribe((delta) => deltas.push(delta));
+
+    search.add(vehicle('far', 51.3, -114.5));
+    await tick();
+    expect(deltas).toHaveLength(0);
+
+    search.add(vehicle('closest', 51.0447, -114.0719));
+    await tick();
+    expect(deltas).toHaveLength(1);
+    expect(ids(deltas[0]!.added)).toEqual(['closest']);
+    expect(ids(deltas[0]!.removed)).toEqual(['b']);
+  });
+
+  it('should report everything removed on clear()', async () => {
+    const deltas: Array<LiveQueryDelta<Vehicle>> = [];
+    search.query().subscribe((delta) => deltas.push(delta));
+    search.clear();
+    await tick();
+    expect(ids(deltas[0]!.removed)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should stop calling back after unsubscribing', async () => {
+    const callback = vi.fn();
+    const unsubscribe = search.near(CALGARY_CENTER, 5).subscribe(callback);
+    search.add(vehicle('d', 51.04, -114.06));
+    unsubscribe();
+    await tick();
+    search.add(vehicle('e', 51.041, -114.061));
+    await tick();
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('should batch addMany() into one delta per query', async () => {
+    const callback = vi.fn();
+    search.near(CALGARY_CENTER, 5).subscribe(callback);
+    search.addMany([vehicle('d', 51.04, -114.06), vehicle('e', 51.041, -114.061)]);
+    await tick();
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(ids((callback.mock.calls[0]![0] as LiveQueryDelta<Vehicle>).added)).toEqual(['d', 'e']);
+  });
+});
+
+describe('geofencing', () => {
+  const downtown: GeoFence = {
+    id: 'downtown',
+    type: 'circle',
+    center: CALGARY_CENTER,
+    radiusKm: 1,
+    metadata: { zone: 'A' },
+  };
+  const beltline: GeoFence = {
+    id: 'beltline',
+    type: 'polygon',
+    polygon: [
+      { lat: 51.03, lng: -114.09 },
+      { lat: 51.03, lng: -114.05 },
+      { lat: 51.042, lng: -114.05 },
+      { lat: 51.042, lng: -114.09 },
+    ],
+  };
+  const at = (lat: number, lng: number, timestamp: number) => ({
+    id: 'courier-1',
+    lat,
+    lng,
+    timestamp,
+  });
+  const summary = (events: GeoFenceEvent[]) => events.map((e) => `${e.type}:${e.fence.id}`);
+
+  it('should emit enter and exit as an object crosses fences', () => {
+    const fences = new GeoFenceSet([downtown, beltline]);
+
+    expect(summary(fences.update(at(51.1, -114.07, 0)))).toEqual([]);
+    expect(summary(fences.update(at(51.045, -114.07, 1000)))).toEqual(['enter:downtown']);
+    expect(summary(fences.update(at(51.038, -114.07, 2000)))).toEqual(['enter:beltline']);
+    expect(fences.fencesOf('courier-1').sort()).toEqual(['beltline', 'downtown']);
+
+    const exits = fences.update(at(51.0, -114.07, 5000));
+    expect(summary(exits).sort()).toEqual(['exit:beltline', 'exit:downtown']);
+    expect(exits.find((e) => e.fence.id === 'downtown')!.dwellMs).toBe(4000);
+    expect(exits[0]!.objectId).toBe('courier-1');
+  });
+
+  it('should emit dwell once per visit after dwellMs', () => {
+    const fences = new GeoFenceSet([downtown], { dwellMs: 60_000 });
+
+    fences.update(at(51.045, -114.07, 0));
+    expect(summary(fences.update(at(51.0451, -114.07, 30_000)))).toEqual([]);
+    const dwell = fences.update(at(51.0452, -114.07, 61_000));
+    expect(summary(dwell)).toEqual(['dwell:downtown']);
+    expect(dwell[0]!.dwellMs).toBe(61_000);
+    expect(fences.update(at(51.0453, -114.07, 120_000))).toEqual([]);
+
+    fences.update(at(51.2, -114.07, 130_000));
+    fences.update(at(51.045, -114.07, 140_000));
+    expect(summary(fences.update(at(51.045, -114.07, 200_000)))).toEqual(['dwell:downtown']);
+  });
+
+  it('should let a fence override dwellMs', () => {
+    const fences = new GeoFenceSet([{ ...downtown, dwellMs: 1000 }, beltline], {
+      dwellMs: 60_000,
+    });
+    fences.update(at(51.04, -114.07, 0));
+    expect(summary(fences.update(at(51.04, -114.07, 1500)))).toEqual(['dwell:downtown']);
+  });
+
+  it('should deliver events to listeners until unsubscribed', () => {
+    const fences = new GeoFenceSet<{ zone: string }>([
+      { id: 'z', type: 'circle', center: CALGARY_CENTER, radiusKm: 1, metadata: { zone: 'A' } },
+    ]);
+    const zones: string[] = [];
+    const off = fences.on('enter', (event) => zones.push(event.fence.metadata!.zone));
+
+    fences.update(at(51.045, -114.07, 0));
+    off();
+    fences.update({ ...at(51.045, -114.07, 0), id: 'courier-2' });
+    expect(zones).toEqual(['A']);
+  });
+
+  it('should ignore updates older than the last one', () => {
+    const fences = new GeoFenceSet([downtown]);
+    fences.update(at(51.045, -114.07, 5000));
+    expect(fences.update(at(51.2, -114.07, 4000))).toEqual([]);
+    expect(fences.fencesOf('courier-1')).toEqual(['downtown']);
+  });
+
+  it('should only test fences near the update', () => {
+    let distanceCalls = 0;
+    const fences = new GeoFenceSet(
+      Array.from({ length: 400 }, (_, i) => ({
+        id: `zone-${i}`,
+        type: 'circle' as const,
+        center: { lat: 50 + (i % 20) * 0.1, lng: -115 + Math.floor(i / 20) * 0.1 },
+        radiusKm: 2,
+      })),
+      {
+        distance: (a, b) => {
+          distanceCalls++;
+          return haversineDistance(a, b);
+        },
+      }
+    );
+
+    const events = fences.update({ id: 'v', lat: 50.5, lng: -114.5, timestamp: 0 });
+    expect(summary(events)).toEqual(['enter:zone-105']);
+    expect(distanceCalls).toBeLessThan(5);
+  });
+
+  it('should match circles across the antimeridian', () => {
+    const fences = new GeoFenceSet([
+      { id: 'dateline', type: 'circle', center: { lat: 0, lng: 179.99 }, radiusKm: 10 },
+    ]);
+    expect(fences.fencesAt({ lat: 0, lng: -179.98 }).map((f) => f.id)).toEqual(['dateline']);
+    expect(fences.fencesAt({ lat: 0, lng: 179.5 })).toEqual([]);
+  });
+
+  it('should manage fences and tracked objects', () => {
+    const fences = new GeoFenceSet([downtown]);
+    expect(() => fences.add(downtown)).toThrow("Fence 'downtown' already exists.");
+    expect(() => fences.add({ ...downtown, id: 'bad', radiusKm: 0 })).toThrow(
+      "Fence 'bad' needs a positive radiusKm."
+    );
+
+    fences.update(at(51.045, -114.07, 0));
+    expect(fences.remove('downtown')).toBe(true);
+    expect(fences.remove('downtown')).toBe(false);
+    expect(fences.size).toBe(0);
+    expect(fences.fencesOf('courier-1')).toEqual([]);
+
+    fences.add(beltline);
+    fences.update(at(51.038, -114.07, 1000));
+    expect(fences.forget('courier-1')).toBe(true);
+    expect(summary(fences.update(at(51.038, -114.07, 2000)))).toEqual(['enter:beltline']);
+    expect(fences.get('beltline')).toBe(beltline);
+  });
+});
+
+describe('item ids', () => {
+  const gyms = () => testGyms.map((gym) => ({ ...gym, tags: [...gym.tags] }));
+
+  it('should look items up by id', () => {
+    const items = gyms();
+    const search = GeoSearch.from(items, { idField: 'id' });
+
+    expect(search.get('3')).toBe(items[2]);
+    expect(search.has('3')).toBe(true);
+    expect(search.has('42')).toBe(false);
+    expect(search.get('42')).toBeUndefined();
+  });
+
+  it('should remove a re-fetched copy by id', () => {
+    const search = GeoSearch.from(gyms(), { idField: 'id' });
+
+    expect(search.remove({ ...testGyms[0]! })).toBe(true);
+    expect(search.has('1')).toBe(false);
+    expect(search.removeById('2')).toBe(true);
+    expect(search.removeById('2')).toBe(false);
+    expect(search.size).toBe(3);
+  });
+
+  it('should reject duplicate ids by default without changing anything', () => {
+    const search = GeoSearch.from(gyms(), { idField: 'id' });
+    const fresh = { ...testGyms[0]!, id: '6' };
+
+    expect(() => search.add({ ...testGyms[1]! })).toThrow("Duplicate item id '2'.");
+    expect(() => search.addMany([fresh, { ...fresh }])).toThrow("Duplicate item id '6'.");
+    expect(search.size).toBe(5);
+    expect(search.has('6')).toBe(false);
+    expect(() => GeoSearch.from([testGyms[0]!, testGyms[0]!], { idField: 'id' })).toThrow(
+      "Duplicate item id '1'."
+    );
+  });
+
+  it('should replace duplicates when configured', () => {
+    const search = GeoSearch.from(gyms(), { idField: 'id', duplicateIds: 'replace' });
+    const renamed = { ...testGyms[0]!, name: 'Downtown Fitness 2.0' };
+
+    search.add(renamed);
+    expect(search.size).toBe(5);
+    expect(search.get('1')).toBe(renamed);
+    expect(search.all()).toContain(renamed);
+
+    const initial = GeoSearch.from([testGyms[0]!, renamed], {
+      idField: 'id',
+      duplicateIds: 'replace',
+    });
+    expect(initial.all()).toEqual([renamed]);
+  });
+
+  it('should upsert regardless of the duplicate policy', () => {
+    const search = GeoSearch.from(gyms(), { getId: (gym) => gym.id });
+    const moved = { ...testGyms[4]!, lat: CALGARY_CENTER.lat, lng: CALGARY_CENTER.lng };
+
+    search.upsert(moved).upsert({ ...testGyms[0]!, id: '6' });
+    expect(search.size).toBe(6);
+    expect(
+      search
+        .near(CALGARY_CENTER, 0.1)
+        .execute()
+        .map((gym) => gym.id)
+    ).toEqual(['5']);
+  });
+
+  it('should move items in place', () => {
+    const items = gyms();
+    const search = GeoSearch.from(items, { idField: 'id', cache: true });
+    search.near(CALGARY_CENTER, 0.1).execute();
+
+    expect(search.move('5', CALGARY_CENTER)).toBe(true);
+    expect(items[4]).toMatchObject(CALGARY_CENTER);
+    expect(
+      search
+        .near(CALGARY_CENTER, 0.1)
+        .execute()
+        .map((gym) => gym.id)
+    ).toEqual(['5']);
+    expect(
+      search.withinBounds({ minLat: 51.1, maxLat: 51.2, minLng: -115, maxLng: -114 }).execute()
+    ).toEqual([]);
+    expect(search.move('42', CALGARY_CENTER)).toBe(false);
+  });
+
+  it('should move items with coordinate field paths', () => {
+    const records = [{ key: 7, geo: { coordinates: [-114.0632, 51.0453] } }];
+    const search = GeoSearch.from(records, {
+      idField: 'key',
+      latField: 'geo.coordinates.1',
+      lngField: 'geo.coordinates.0',
+    });
+
+    search.move(7, { lat: 51.1, lng: -114.2 });
+    expect(records[0]!.geo.coordinates).toEqual([-114.2, 51.1]);
+    expect(search.nearest({ lat: 51.1, lng: -114.2 }, 1).execute()[0]!.distance).toBe(0);
+  });
+
+  it('should report moves to live queries as updates', async () => {
+    const search = GeoSearch.from(gyms(), { idField: 'id' });
+    const deltas: Array<LiveQueryDelta<WithDistance<TestLocation>>> = [];
+    search.near(CALGARY_CENTER, 2).subscribe((delta) => deltas.push(delta));
+
+    search.move('1', { lat: 51.045, lng: -114.07 });
+    search.move('5', CALGARY_CENTER);
+    await Promise.resolve();
+
+    expect(deltas).toHaveLength(1);
+    expect(deltas[0]!.added.map((gym) => gym.id)).toEqual(['5']);
+    expect(deltas[0]!.updated.map((gym) => gym.id)).toEqual(['1']);
+  });
+
+  it('should need an id option for id methods', () => {
+    const search = GeoSearch.from(gyms());
+    expect(() => search.get('1')).toThrow('get() needs the idField or getId option.');
+    expect(() => search.move('1', CALGARY_CENTER)).toThrow('move() needs the idField');
+    expect(() => GeoSearch.from(gyms(), { idField: 'id', getId: (gym) => gym.id })).toThrow(
+      'Use either idField or getId, not both.'
+    );
+  });
+
+  it('should refuse to move items read through getCoordinates', () => {
+    const search = GeoSearch.from(gyms(), { idField: 'id', getCoordinates: (gym) => gym });
+    expect(() => search.move('1', CALGARY_CENTER)).toThrow('Use upsert()');
+  });
+
+  it('should support lookups but not moves in static mode', () => {
+    const items = gyms();
+    const search = GeoSearch.from(items, { idField: 'id', static: true });
+    expect(search.get('2')).toBe(items[1]);
+    expect(() => search.move('2', CALGARY_CENTER)).toThrow('does not support move()');
+    expect(items[1]!.lat).toBe(testGyms[1]!.lat);
+  });
+
+  it('should restore ids from a snapshot', () => {
+    const items = gyms();
+    const buffer = GeoSearch.from(items, { idField: 'id' }).serialize();
+    const restored = GeoSearch.deserialize(buffer, items, { idField: 'id' });
+    expect(restored.get('4')).toBe(items[3]);
+    expect(restored.removeById('4')).toBe(true);
+  });
+});
+
+describe('hybrid mode', () => {
+  type Point = { id: string; lat: number; lng: number };
+  const makePoints = (count: number, prefix = ''): Point[] =>
+    Array.from({ length: count }, (_, i) => ({
+      id: `${prefix}${i}`,
+      lat: 50 + (i % 25) * 0.1,
+      lng: -115 + Math.floor(i / 25) * 0.1,
+    }));
+  const center = { lat: 51.03, lng: -114.02 };
+
+  // Applies the same edits to a hybrid and a dynamic index
+  function editBoth(compactThreshold: number) {
+    const items = makePoints(500);
+    const hybrid = GeoSearch.from(
+      items.map((p) => ({ ...p })),
+      { static: 'hybrid', idField: 'id', compactThreshold }
+    );
+    const dynamic = GeoSearch.from(
+      items.map((p) => ({ ...p })),
+      { idField: 'id' }
+    );
+    for (const search of [hybrid, dynamic]) {
+      search.addMany(makePoints(40, 'new-').map((p) => ({ ...p, lat: p.lat + 0.05 })));
+      for (let i = 0; i < 500; i += 7) search.removeById(String(i));
+      for (let i = 0; i < 40; i += 5) search.removeById(`new-${i}`);
+      for (let i = 3; i < 500; i += 31)
+        search.move(String(i), { lat: 51.02, lng: -114.03 + i / 1e4 });
+    }
+    return { hybrid, dynamic };
+  }
+
+  const resultsOf = (search: GeoSearch<Point>) => ({
+    size: search.size,
+    all: search
+      .all()
+      .map((p) => p.id)
+      .sort(),
+    radius: search
+      .near(center, 15)
+      .execute()
+      .map((r) => r.id)
+      .sort(),
+    bounds: search
+      .withinBounds({ minLat: 50.5, maxLat: 51.2, minLng: -114.5, maxLng: -113.9 })
+      .execute()
+      .map((r) => r.id)
+      .sort(),
+    nearest: search
+      .nearest(center, 25)
+      .execute()
+      .map((r) => r.distance),
+    streamed: [...search.near(center, 10).stream()].map((r) => r.distance),
+  });
+
+  it.each([100, 0])(
+    'should match dynamic mode after edits (compactThreshold: %s)',
+    (compactThreshold) => {
+      const { hybrid, dynamic } = editBoth(compactThreshold);
+      expect(resultsOf(hybrid)).toEqual(resultsOf(dynamic));
+    }
+  );
+
+  it('should give the same results after compact()', () => {
+    const { hybrid } = editBoth(100);
+    const before = resultsOf(hybrid);
+    hybrid.compact();
+    expect(resultsOf(hybrid)).toEqual(before);
+  });
+
+  it('should allow edits from an empty index', () => {
+    const search = new GeoSearch<Point>([], { static: 'hybrid' });
+    expect(search.staticMode).toBe(false);
+    expect(search.near(center, 10).execute()).toEqual([]);
+
+    const point = { id: 'a', ...center };
+    search.add(point);
+    expect(search.nearest(center, 1).execute()).toEqual([{ ...point, distance: 0 }]);
+    expect(search.remove(point)).toBe(true);
+    expect(search.remove(point)).toBe(false);
+    expect(search.size).toBe(0);
+  });
+
+  it('should keep cursors valid across a rebuild', () => {
+    const search = GeoSearch.from(makePoints(100), { static: 'hybrid' });
+    search.addMany(makePoints(10, 'new-'));
+    const query = search
+      .query()
+      .sortBy([{ field: 'lat', order: 'asc' }])
+      .limit(30);
+
+    const first = query.executeWithMetadata();
+    const expected = query
+      .offset(30)
+      .execute()
+      .map((p) => p.id);
+    search.compact();
+
+    const second = query.after(first.metadata.nextCursor!).execute();
+    expect(second.map((p) => p.id)).toEqual(expected);
+  });
+
+  it('should round-trip snapshots in hybrid mode', () => {
+    const { hybrid } = editBoth(100);
+    const buffer = hybrid.serialize();
+    const restored = GeoSearch.deserialize(buffer, hybrid.all(), {
+      static: 'hybrid',
+      idField: 'id',
+    });
+
+    expect(resultsOf(restored)).toEqual(resultsOf(hybrid));
+    restored.add({ id: 'late', ...center });
+    expect(restored.get('late')).toBeDefined();
+    expect(GeoSearch.deserialize(buffer, hybrid.all()).staticMode).toBe(true);
+  });
+});
+
+describe('attribute indexes', () => {
+  type Venue = { id: string; lat: number; lng: number; category: string; rating: number };
+  const categories = ['gym', 'pool', 'cafe', 'park', 'spa', 'rink', 'pub', 'zoo'];
+  const makeVenues = (count: number): Venue[] =>
+    Array.from({ length: count }, (_, i) => ({
+      id: String(i),
+      lat: 50 + (i % 40) * 0.05,
+      lng: -115 + Math.floor(i / 40) * 0.05,
+      category: i % 97 === 0 ? 'arena' : categories[i % categories.length]!,
+      rating: (i * 7) % 50,
+    }));
+  const center = { lat: 51, lng: -114.5 };
+  const idsOf = (items: Array<{ id: string }>) => items.map((item) => item.id).sort();
+
+  it('should return what a scan returns, for every operator it answers', () => {
+    const scanned = GeoSearch.from(makeVenues(2000));
+    const hashed = GeoSearch.from(makeVenues(2000)).createIndex('category');
+    const sorted = GeoSearch.from(makeVenues(2000))
+      .createIndex('category', { type: 'sorted' })
+      .createIndex('rating', { type: 'sorted' });
+
+    const queries: Array<[keyof Venue, FilterOperator, unknown]> = [
+      ['category', 'equals', 'arena'],
+      ['category', 'equals', 'nothing'],
+      ['category', 'in', ['arena', 'zoo', 'zoo']],
+      ['category', 'in', 'arena'],
+      ['category', 'greaterThan', 'rink'],
+      ['category', 'lessThanOrEqual', 'cafe'],
+      ['rating', 'equals', 7],
+      ['rating', 'in', [0, 49, 50]],
+      ['rating', 'between', [10, 12]],
+      ['rating', 'between', [12, 10]],
+      ['rating', 'greaterThan', 47],
+      ['rating', 'greaterThanOrEqual', 47],
+      ['rating', 'lessThan', 2],
+      ['rating', 'lessThanOrEqual', 2],
+      ['rating', 'greaterThan', '40'],
+      ['rating', 'notEquals', 3],
+    ];
+    for (const [field, operator, value] of queries) {
+      const expected = idsOf(scanned.where(field, operator, value).execute());
+      expect(idsOf(hashed.where(field, operator, value).execute())).toEqual(expected);
+      expect(idsOf(sorted.where(field, operator, value).execute())).toEqual(expected);
+    }
+  });
+
+  it('should answer an indexed filter without reading every item', () => {
+    let reads = 0;
+    const items = Array.from({ length: 1000 }, (_, i) => ({
+      id: i,
+      lat: 50 + (i % 10) * 0.1,
+      lng: -115 + Math.floor(i / 10) * 0.01,
+      get category() {
+        reads++;
+        return i % 100 === 0 ? 'rare' : 'common';
+      },
+    }));
+    const search = GeoSearch.from(items).createIndex('category');
+
+    reads = 0;
+    const results = search.where('category', 'equals', 'rare').execute();
+    expect(results.map((item) => item.id)).toEqual([
+      0, 100, 200, 300, 400, 500, 600, 700, 800, 900,
+    ]);
+    expect(reads).toBe(0);
+
+    expect(search.dropIndex('category')).toBe(true);
+    expect(search.dropIndex('category')).toBe(false);
+    search.where('category', 'equals', 'rare').execute();
+    expect(reads).toBe(1000);
+  });
+
+  it('should combine an index with spatial filters', () => {
+    const scanned = GeoSearch.from(makeVenues(3000));
+    const indexed = GeoSearch.from(makeVenues(3000)).createIndex('category');
+    const run = (search: GeoSearch<Venue>, category: string) => [
+      search
+        .near(center, 20, { sector: { fromBearing: 0, toBearing: 180 } })
+        .where('category', 'equals', category)
+        .sortBy([{ field: 'distance', order: 'asc' }])
+        .execute(),
+      search
+        .withinBounds({ minLat: 50.5, maxLat: 51.5, minLng: -114.8, maxLng: -114 })
+        .where('category', 'equals', category)
+        .where('rating', 'greaterThan', 20)
+        .execute()
+        .map((item) => item.id)
+        .sort(),
+    ];
+
+    // 'arena' is rare enough to replace the tree lookup, 'gym' isn't
+    for (const category of ['arena', 'gym']) {
+      expect(run(indexed, category)).toEqual(run(scanned, category));
+    }
+    expect(run(indexed, 'arena')[0]!.length).toBeGreaterThan(0);
+  });
+
+  it('should apply a radius and bounds together with or without an index', () => {
+    const scanned = GeoSearch.from(makeVenues(3000));
+    const indexed = GeoSearch.from(makeVenues(3000)).createIndex('category');
+    const box = { minLat: 50.9, maxLat: 51.5, minLng: -114.5, maxLng: -114 };
+    const run = (search: GeoSearch<Venue>) =>
+      search.near(center, 40).withinBounds(box).where('category', 'equals', 'arena').execute();
+
+    const results = run(scanned);
+    expect(results.length).toBeGreaterThan(0);
+    for (const venue of results) {
+      expect(isPointInBounds(venue, box)).toBe(true);
+      expect(venue.distance).toBeLessThanOrEqual(40);
+    }
+    expect(idsOf(run(indexed))).toEqual(idsOf(results));
+    expect(scanned.near(center, 40).withinBounds(box).execute().length).toBeLessThan(
+      scanned.near(center, 40).execute().length
+    );
+  });
+
+  it('should find the nearest matches through an index', () => {
+    const scanned = GeoSearch.from(makeVenues(3000));
+    const indexed = GeoSearch.from(makeVenues(3000)).createIndex('category');
+
+    const expected = scanned.nearest(center, 5).where('category', 'equals', 'arena').execute();
+    const results = indexed.nearest(center, 5).where('category', 'equals', 'arena').execute();
+    expect(results).toHaveLength(5);
+    expect(results).toEqual(expected);
+    expect(
+      indexed.nearest(center, 5, { maxDistance: 10 }).where('category', 'equals', 'arena').execute()
+    ).toEqual(
+      scanned.nearest(center, 5, { maxDistance: 10 }).where('category', 'equals', 'arena').execute()
+    );
+  });
+
+  it('should keep indexes up to date through mutations', () => {
+    const search = GeoSearch.from(makeVenues(500), { idField: 'id' })
+      .createIndex('category')
+      .createIndex('lat', { type: 'sorted' });
+    const arenas = () => idsOf(search.where('category', 'equals', 'arena').execute());
+
+    expect(arenas()).toEqual(['0', '194', '291', '388', '485', '97']);
+    search.add({ ...makeVenues(1)[0]!, id: 'new', category: 'arena' });
+    search.removeById('97');
+    search.upsert({ ...search.get('194')!, category: 'pool' });
+    search.upsert({ ...search.get('1')!, category: 'arena' });
+    expect(arenas()).toEqual(['0', '1', '291', '388', '485', 'new']);
+
+    search.move('291', { lat: 60, lng: -114 });
+    expect(idsOf(search.where('lat', 'greaterThan', 55).execute())).toEqual(['291']);
+    expect(search.where('lat', 'equals', 50).execute()).toHaveLength(14);
+
+    search.clear();
+    expect(arenas()).toEqual([]);
+    search.add({ ...makeVenues(1)[0]!, category: 'arena' });
+    expect(arenas()).toEqual(['0']);
+  });
+
+  it('should work in static and hybrid modes', () => {
+    const frozen = GeoSearch.from(makeVenues(1000), { static: true }).createIndex('category');
+    expect(idsOf(frozen.where('category', 'equals', 'arena').execute())).toHaveLength(11);
+
+    const hybrid = GeoSearch.from(makeVenues(1000), { static: 'hybrid', idField: 'id' });
+    hybrid.createIndex('rating', { type: 'sorted' });
+    hybrid.removeById('0');
+    hybrid.add({ ...makeVenues(1)[0]!, id: 'new' });
+    hybrid.compact();
+    const unrated = idsOf(hybrid.where('rating', 'equals', 0).execute());
+    expect(unrated).toHaveLength(20);
+    expect(unrated).toContain('new');
+    expect(unrated).not.toContain('0');
+  });
+
+  it('should fall back to a scan for values a sorted index leaves out', () => {
+    const items = [
+      { id: 'a', lat: 50, lng: -114, code: 1 as number | string | null },
+      { id: 'b', lat: 50, lng: -114, code: '1' as number | string | null },
+      { id: 'c', lat: 50, lng: -114, code: null as number | string | null },
+      { id: 'd', lat: 50, lng: -114, code: NaN as number | string | null },
+    ];
+    const search = GeoSearch.from(items).createIndex('code', { type: 'sorted' });
+
+    expect(idsOf(search.where('code', 'equals', null).execute())).toEqual(['c']);
+    expect(idsOf(search.where('code', 'equals', NaN).execute())).toEqual([]);
+    expect(idsOf(search.where('code', 'in', [NaN, 1]).execute())).toEqual(['a', 'd']);
+    expect(idsOf(search.where('code', 'greaterThanOrEqual', 1).execute())).toEqual(['a']);
+    expect(idsOf(search.where('code', 'lessThan', '2').execute())).toEqual(['b']);
+  });
+
+  it('should match nothing for NaN between bounds, with or without an index', () => {
+    const scanned = GeoSearch.from(makeVenues(500));
+    const indexed = GeoSearch.from(makeVenues(500)).createIndex('rating', { type: 'sorted' });
+
+    for (const bounds of [
+      [NaN, 3],
+      [1, NaN],
+      [NaN, NaN],
+    ]) {
+      const expected = scanned.where('rating', 'between', bounds).execute();
+      expect(expected).toEqual([]);
+      expect(indexed.where('rating', 'between', bounds).execute()).toEqual(expected);
+    }
+  });
+
+  it('should reject unknown index types', () => {
+    const search = GeoSearch.from(makeVenues(10));
+    expect(() => search.createIndex('category', { type: 'btree' as 'sorted' })).toThrow(
+      "Unknown index type 'btree'"
+    );
+  });
+});
+
 describe('haversineDistance', () => {
   it('should calculate correct distance', () => {
     // Calgary to Edmonton is approximately 299km
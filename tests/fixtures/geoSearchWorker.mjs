@@ -0,0 +1,8 @@
+// Worker entry for the worker_threads test. Worker threads don't go through
+// vitest's transform, so tsx compiles the TypeScript sources instead.
+import { parentPort } from 'node:worker_threads';
+import { register } from 'tsx/esm/api';
+
+register();
+const { GeoSearchWorker } = await import('../../src/index.ts');
+new GeoSearchWorker(parentPort);